@@ -0,0 +1,21 @@
+// 虚拟模块类型声明，在 env.d.ts 中通过 /// <reference types="@wemt/vue3-auto-router/client" /> 引入
+
+declare module "virtual:auto-routes" {
+  import type { RouteRecordRaw, Router } from "vue-router";
+
+  export const autoRoutes: RouteRecordRaw[];
+  export default autoRoutes;
+
+  /** 将自动生成的路由添加到路由实例并在更新时热替换，仅在开启 hmr.runtime 时导出 */
+  export function handleHotUpdate(router: Router): void;
+}
+
+declare module "virtual:auto-routes/config" {
+  export const routeConfig: {
+    base: { pathPrefix: string; lazy: boolean; meta: Record<string, any> };
+    meta: Record<string, any>;
+    autoRoute: Record<string, any>;
+    notFound: Record<string, any>;
+  };
+  export default routeConfig;
+}
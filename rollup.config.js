@@ -8,11 +8,14 @@ const external = [
   'vue',
   'vue-router', 
   'vite',
+  '@vue/compiler-sfc',
+  'yaml',
   'fs',
   'path',
   'url',
   'util',
-  'glob'
+  'glob',
+  'minimatch'
 ]
 
 // 主要构建配置
@@ -46,6 +49,33 @@ const mainConfig = {
   ]
 }
 
+// 运行时辅助函数构建配置，在浏览器中使用
+const runtimeConfig = {
+  input: 'src/runtime/index.ts',
+  external,
+  output: [
+    {
+      file: 'publish/dist/runtime.js',
+      format: 'cjs',
+      sourcemap: true,
+      exports: 'named'
+    },
+    {
+      file: 'publish/dist/runtime.mjs',
+      format: 'es',
+      sourcemap: true
+    }
+  ],
+  plugins: [
+    typescript({
+      tsconfig: './tsconfig.json',
+      declaration: false,
+      declarationMap: false,
+      sourceMap: true
+    })
+  ]
+}
+
 // 类型声明文件配置
 const dtsConfig = {
   input: 'src/index.ts',
@@ -59,4 +89,17 @@ const dtsConfig = {
   ]
 }
 
-export default [mainConfig, dtsConfig]
\ No newline at end of file
+// 运行时类型声明文件配置
+const runtimeDtsConfig = {
+  input: 'src/runtime/index.ts',
+  external,
+  output: {
+    file: 'publish/dist/runtime.d.ts',
+    format: 'es'
+  },
+  plugins: [
+    dts()
+  ]
+}
+
+export default [mainConfig, runtimeConfig, dtsConfig, runtimeDtsConfig]
\ No newline at end of file
@@ -0,0 +1,51 @@
+import type { Diagnostic, DiagnosticCode } from "./types";
+
+// 诊断信息收集器：生成路由时记录警告和错误，由插件统一输出
+export class DiagnosticCollector {
+  private diagnostics: Diagnostic[] = [];
+
+  // 记录一条诊断，相同的诊断只保留一条
+  report(diagnostic: Diagnostic): void {
+    const key = formatDiagnostic(diagnostic);
+    if (this.diagnostics.some(existing => formatDiagnostic(existing) === key)) return;
+    this.diagnostics.push(diagnostic);
+  }
+
+  warn(code: DiagnosticCode, message: string, location: Pick<Diagnostic, "file" | "line"> = {}): void {
+    this.report({ code, level: "warning", message, ...location });
+  }
+
+  error(code: DiagnosticCode, message: string, location: Pick<Diagnostic, "file" | "line"> = {}): void {
+    this.report({ code, level: "error", message, ...location });
+  }
+
+  // 获取已收集的全部诊断
+  getAll(): Diagnostic[] {
+    return [...this.diagnostics];
+  }
+
+  clear(): void {
+    this.diagnostics = [];
+  }
+}
+
+/**
+ * 格式化诊断信息，如 [DUPLICATE_PATH] src/views/About.vue: Path "/about" is already used by ...
+ * @param diagnostic 诊断信息
+ * @returns 单行文本
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const location = diagnostic.file
+    ? `${diagnostic.file}${diagnostic.line !== undefined ? `:${diagnostic.line}` : ""}: `
+    : "";
+  return `[${diagnostic.code}] ${location}${diagnostic.message}`;
+}
+
+/**
+ * 筛选错误级别的诊断
+ * @param diagnostics 诊断列表
+ * @returns 错误列表
+ */
+export function getDiagnosticErrors(diagnostics: Diagnostic[]): Diagnostic[] {
+  return diagnostics.filter(diagnostic => diagnostic.level === "error");
+}
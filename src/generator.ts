@@ -2,150 +2,611 @@ import fs from "fs";
 import path from "path";
 import crypto from "crypto";
 import type { RouteRecordRaw } from "vue-router";
-import type { InternalAutoRouterOptions } from "./types";
-import { scanFiles, generateRoutePath, generateRouteName, generatePageTitle, generateImportStatement, parseVueFileRouteMeta, isHomePageFile, normalizePath } from "./utils";
-import { generateRoutesTemplate, generateConfigTemplate, generateGuardsTemplate } from "./templates";
+import type { Diagnostic, FileChangeEvent, InternalAutoRouterOptions, PageGuardReference, PageRouteOptions, ParseWarning, PathContext, ResolvedScanDir, RouteMeta, StaticImport } from "./types";
+import { scanFiles, generateRoutePath, generateRouteName, generatePageTitle, generateImportStatement, generateImportPath, generateComponentIdentifier, parseVueFileRouteOptions, isHomePageFile, normalizePath, findScanDir, getScanDirRelativePath, isRouteGroupSegment, isGroupLayoutFile, isGroupMetaFile, GROUP_META_FILES, isDirectoryMetaFile, DIRECTORY_META_FILES, parseDirectoryMetaFile, mergeRouteMeta, routePathToName, joinRoutePath, prefixRouteName, createPathContext, resolveScanDirs, defaultOptions, NOT_FOUND_FILE_NAMES } from "./utils";
+import { generateRoutesTemplate, generateConfigTemplate, generateGuardsTemplate, generateTypedRouterTemplate } from "./templates";
+import { compareRouteSpecificity, getRouteSignature } from "./ranking";
+import { DiagnosticCollector } from "./diagnostics";
+
+// 路由条目：记录来源文件、所属扫描目录与用于匹配布局的相对路径
+interface RouteEntry {
+  file: string;
+  scanDir: string;
+  key: string;
+  route: RouteRecordRaw;
+  /** 路由名称是否由页面显式指定 */
+  explicitName: boolean;
+}
+
+// 文件解析缓存：文件的修改时间和大小不变时复用解析结果，并重新报告解析时的警告
+interface ParseCacheEntry {
+  mtimeMs: number;
+  size: number;
+  result: unknown;
+  warnings: ParseWarning[];
+}
 
 // 路由生成器类
 export class RouteGenerator {
   private options: InternalAutoRouterOptions;
-  private root: string;
+  private context: PathContext;
   private lastGeneratedHash: string = "";
+  private staticImports = new Map<string, StaticImport>();
+  private diagnostics = new DiagnosticCollector();
+  private notFoundFile: string | null = null;
+  private files: string[] | null = null;
+  private parseCache = new Map<string, ParseCacheEntry>();
 
-  constructor(options: InternalAutoRouterOptions, root: string) {
+  // root 可以是项目根目录，也可以是插件在 configResolved 中创建的路径上下文
+  constructor(options: InternalAutoRouterOptions, root: string | PathContext) {
     this.options = options;
-    this.root = root;
+    this.context = typeof root === "string" ? createPathContext(options, root) : root;
   }
 
   // 生成路由配置
   async generateRoutes(): Promise<RouteRecordRaw[]> {
-    const routes: RouteRecordRaw[] = [];
-    const files = await scanFiles(this.options, this.root);
-    const pathMap = new Map<string, string>(); // 用于检测路径冲突
+    this.staticImports = new Map();
+    this.diagnostics.clear();
+    this.checkScanDirs();
+    // 文件列表只在首次生成或清空缓存后扫描，之后由 updateFile 增量维护
+    if (!this.files) {
+      this.files = await scanFiles(this.context);
+    }
+    const files = this.files;
+    this.notFoundFile = this.resolveNotFoundComponent(files);
+    const entries: RouteEntry[] = [];
 
-    // 生成普通路由
     for (const file of files) {
-      if (!this.isNotFoundComponent(file)) {
-        const route = this.createRouteFromFile(file);
-        
-        // 检查路径冲突
-        if (pathMap.has(route.path)) {
-          const existingFile = pathMap.get(route.path);
-          console.warn(`[Route Conflict] Path "${route.path}" is used by multiple files:`);
-          console.warn(`  - ${existingFile}`);
-          console.warn(`  - ${file}`);
-          console.warn(`  Only the first one will be used. Consider renaming one of the files.`);
-          continue; // 跳过冲突的路由
+      if (this.isNotFoundComponent(file) || isGroupMetaFile(file) || isDirectoryMetaFile(file)) continue;
+
+      const pageOptions = this.parseCached(file, parseVueFileRouteOptions);
+      const route = await this.extendRoute(this.createRouteFromFile(file, pageOptions), file, pageOptions);
+      if (!route) continue;
+
+      entries.push({
+        file,
+        scanDir: this.getScanDir(file).dir,
+        key: this.getRouteKey(file),
+        route,
+        explicitName: pageOptions?.name !== undefined,
+      });
+    }
+
+    // 查找布局父路由：同一扫描目录中与目录同名的文件作为该目录下页面的父路由
+    const keyMap = new Map(entries.map(entry => [`${entry.scanDir}:${entry.key}`, entry]));
+    const parentMap = new Map<RouteEntry, RouteEntry>();
+    for (const entry of entries) {
+      const parent = this.findParentEntry(entry, keyMap);
+      if (parent) parentMap.set(entry, parent);
+    }
+
+    const pathMap = new Map<string, RouteEntry>(); // 用于检测路径冲突
+    const accepted: RouteEntry[] = [];
+
+    for (const entry of entries) {
+      const { route, file } = entry;
+
+      // 路由组布局没有名称，只通过子路由渲染，不参与路径冲突检测
+      if (isGroupLayoutFile(file, this.options, this.context)) {
+        accepted.push(entry);
+        continue;
+      }
+
+      // 检查路径冲突：参数名或大小写不同但匹配相同 URL 的路径同样视为冲突
+      // 布局父路由与其目录首页共享同一路径，不算冲突
+      const signature = getRouteSignature(route.path, route.sensitive);
+      const existing = pathMap.get(signature);
+      if (existing && parentMap.get(entry) !== existing && parentMap.get(existing) !== entry) {
+        const conflict = existing.route.path === route.path
+          ? `Path "${route.path}" is already used by ${this.toDisplayPath(existing.file)}`
+          : `Path "${route.path}" matches the same URLs as "${existing.route.path}" in ${this.toDisplayPath(existing.file)}`;
+        this.diagnostics.error("DUPLICATE_PATH", `${conflict}, this route is skipped`, { file: this.toDisplayPath(file) });
+        continue; // 跳过冲突的路由
+      }
+
+      if (!existing) pathMap.set(signature, entry);
+      accepted.push(entry);
+    }
+
+    const routes = this.sortRoutes(this.buildRouteTree(accepted, parentMap));
+
+    // 没有子路由的重定向路由不渲染组件，Vue Router 的类型也不允许同时声明 redirect 和 component
+    const renderedFiles = new Set<string>();
+    for (const { route, file } of accepted) {
+      if (route.redirect !== undefined && !route.children?.length) {
+        delete (route as { component?: unknown }).component;
+      } else {
+        renderedFiles.add(file);
+      }
+    }
+
+    // 移除被跳过路由和重定向路由的静态导入
+    for (const file of this.staticImports.keys()) {
+      if (!renderedFiles.has(file)) this.staticImports.delete(file);
+    }
+    this.disambiguateNames(routes, accepted);
+    const routeFiles = new Map(accepted.map(entry => [entry.route, entry.file]));
+
+    // 添加404路由，404 组件的 defineOptions 同样可以声明元信息
+    if (this.notFoundFile) {
+      const pageOptions = this.parseCached(this.notFoundFile, parseVueFileRouteOptions);
+      const notFoundRoute = await this.extendRoute(this.createNotFoundRoute(this.notFoundFile, pageOptions), this.notFoundFile, pageOptions);
+      if (notFoundRoute) {
+        routes.push(notFoundRoute);
+        routeFiles.set(notFoundRoute, this.notFoundFile);
+      } else {
+        this.staticImports.delete(this.notFoundFile);
+      }
+    }
+
+    // 交给 onRoutesGenerated 处理完整的路由列表
+    const finalRoutes = (await this.options.onRoutesGenerated?.(routes)) ?? routes;
+    this.checkDuplicateNames(finalRoutes, routeFiles);
+
+    return finalRoutes;
+  }
+
+  /**
+   * 通知生成器文件发生变化，增量更新文件列表和解析缓存
+   * @param file 变化的文件路径
+   * @param event 变化类型
+   * @returns 路由是否可能受影响；change 事件中路由相关的内容没有变化（如只修改模板）时返回 false
+   */
+  updateFile(file: string, event: FileChangeEvent): boolean {
+    const normalizedFile = normalizePath(path.resolve(this.context.root, file));
+    const cached = this.parseCache.get(normalizedFile);
+    this.parseCache.delete(normalizedFile);
+
+    if (event === "change") {
+      if (!cached) return true;
+
+      const parse = isDirectoryMetaFile(normalizedFile) ? parseDirectoryMetaFile : parseVueFileRouteOptions;
+      const entry = this.parseFile(normalizedFile, parse);
+      return JSON.stringify([entry.result, entry.warnings]) !== JSON.stringify([cached.result, cached.warnings]);
+    }
+
+    if (this.files) {
+      const files = this.files.filter(existing => existing !== normalizedFile);
+      this.files = event === "add" ? [...files, normalizedFile].sort() : files;
+    }
+    return true;
+  }
+
+  // 丢弃文件列表并重新解析扫描目录（glob 模式可能匹配到新目录），下次生成时重新扫描
+  // 解析缓存按修改时间校验，无需清空
+  resetFileList(): void {
+    this.files = null;
+    this.context.scanDirs = resolveScanDirs(this.options, this.context.root);
+  }
+
+  // 获取最近一次生成路由时收集的诊断信息
+  getDiagnostics(): Diagnostic[] {
+    return this.diagnostics.getAll();
+  }
+
+  // 将解析页面或元信息文件时的警告记录为诊断
+  private reportParseWarning = (warning: ParseWarning): void => {
+    this.diagnostics.warn("UNPARSEABLE_META", warning.message, { file: this.toDisplayPath(warning.file), line: warning.line });
+  };
+
+  // 读取文件的解析结果，文件未变化时使用缓存
+  private parseCached<T>(file: string, parse: (file: string, onWarning: (warning: ParseWarning) => void) => T | null): T | null {
+    const normalizedFile = normalizePath(file);
+    const stats = fs.statSync(normalizedFile, { throwIfNoEntry: false });
+    const cached = this.parseCache.get(normalizedFile);
+    const entry = stats && cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size
+      ? cached
+      : this.parseFile(normalizedFile, parse);
+
+    entry.warnings.forEach(this.reportParseWarning);
+    return entry.result as T | null;
+  }
+
+  // 解析文件并写入缓存，警告先暂存，使用缓存时重新报告
+  private parseFile(file: string, parse: (file: string, onWarning: (warning: ParseWarning) => void) => unknown): ParseCacheEntry {
+    const stats = fs.statSync(file, { throwIfNoEntry: false });
+    const warnings: ParseWarning[] = [];
+    const result = parse(file, warning => warnings.push(warning));
+    const entry = { mtimeMs: stats?.mtimeMs ?? 0, size: stats?.size ?? 0, result, warnings };
+
+    if (stats) this.parseCache.set(file, entry);
+    return entry;
+  }
+
+  // 检查扫描目录是否存在
+  private checkScanDirs(): void {
+    const { scanDirs } = this.context;
+    if (scanDirs.length === 0) {
+      this.diagnostics.error("SCAN_DIR_MISSING", "No directory matches the scanDir option");
+    }
+
+    for (const { dir } of scanDirs) {
+      if (!fs.existsSync(dir)) {
+        this.diagnostics.error("SCAN_DIR_MISSING", `Scan directory "${this.toDisplayPath(dir)}" does not exist`);
+      }
+    }
+  }
+
+  // 为重名的生成路由自动改名，vue-router 中后注册的同名路由会替换先注册的路由
+  // 页面显式指定的名称优先保留，其余按排序后的顺序先到先得，后出现的路由改名
+  private disambiguateNames(routes: RouteRecordRaw[], entries: RouteEntry[]): void {
+    const strategy = this.options.naming.duplicateNames ?? "suffix";
+    if (strategy === "none") return;
+
+    const entryMap = new Map(entries.map(entry => [entry.route, entry]));
+    const collect = (list: RouteRecordRaw[]): RouteEntry[] => list.flatMap(route => [
+      ...(entryMap.has(route) ? [entryMap.get(route)!] : []),
+      ...collect(route.children ?? []),
+    ]);
+    const named = collect(routes).filter(entry => typeof entry.route.name === "string");
+
+    const owners = new Map<string, RouteEntry>();
+    for (const entry of named) {
+      const name = entry.route.name as string;
+      if (entry.explicitName && !owners.has(name)) owners.set(name, entry);
+    }
+
+    for (const entry of named) {
+      const name = entry.route.name as string;
+      const owner = owners.get(name);
+      if (entry.explicitName || owner === entry) continue;
+      if (!owner) {
+        owners.set(name, entry);
+        continue;
+      }
+
+      // path 策略下文件路径与名称一致的路由保留原名，如 foo-bar.vue 与 foo/bar.vue 重名时改名 foo/bar.vue
+      const getPathName = (item: RouteEntry) => prefixRouteName(this.getScanDir(item.file).pathPrefix, item.key);
+      const [keeper, renamed] = strategy === "path" && !owner.explicitName && getPathName(entry) === name
+        ? [entry, owner]
+        : [owner, entry];
+
+      const baseName = strategy === "path" ? getPathName(renamed) : name;
+      let uniqueName = baseName;
+      for (let index = 2; owners.has(uniqueName) || uniqueName === name; index++) {
+        uniqueName = `${baseName}-${index}`;
+      }
+
+      renamed.route.name = uniqueName;
+      owners.set(name, keeper);
+      owners.set(uniqueName, renamed);
+      this.diagnostics.warn(
+        "DUPLICATE_NAME",
+        `Route name "${name}" is used by both ${this.toDisplayPath(keeper.file)} and ${this.toDisplayPath(renamed.file)}, renamed ${this.toDisplayPath(renamed.file)} to "${uniqueName}"`,
+        { file: this.toDisplayPath(renamed.file) }
+      );
+    }
+  }
+
+  // 检查自动改名后仍然重复的路由名称，如页面显式指定或钩子设置的名称
+  private checkDuplicateNames(routes: RouteRecordRaw[], routeFiles: Map<RouteRecordRaw, string>): void {
+    const seen = new Map<RouteRecordRaw["name"], RouteRecordRaw>();
+
+    const visit = (list: RouteRecordRaw[]) => {
+      for (const route of list) {
+        const existing = route.name !== undefined ? seen.get(route.name) : undefined;
+        if (existing) {
+          const existingFile = routeFiles.get(existing);
+          const owner = existingFile ? this.toDisplayPath(existingFile) : `route "${existing.path}"`;
+          const file = routeFiles.get(route);
+          this.diagnostics.error("DUPLICATE_NAME", `Route name "${String(route.name)}" is already used by ${owner}`, {
+            file: file && this.toDisplayPath(file),
+          });
+        } else if (route.name !== undefined) {
+          seen.set(route.name, route);
         }
-        
-        pathMap.set(route.path, file);
-        routes.push(route);
+        if (route.children?.length) visit(route.children);
       }
+    };
+
+    visit(routes);
+  }
+
+  // 相对项目根目录的路径，用于诊断信息
+  private toDisplayPath(file: string): string {
+    return normalizePath(path.relative(this.context.root, file));
+  }
+
+  // 调用 extendRoute 回调，返回 null 表示移除该路由
+  private async extendRoute(route: RouteRecordRaw, file: string, pageOptions: PageRouteOptions | null): Promise<RouteRecordRaw | null> {
+    const { extendRoute } = this.options;
+    if (!extendRoute) return route;
+
+    const result = await extendRoute(route, {
+      file,
+      relativePath: getScanDirRelativePath(normalizePath(file), this.options, this.context),
+      meta: pageOptions?.meta ?? {},
+    });
+
+    if (result === null || result === false) return null;
+    return result ?? route;
+  }
+
+  // 获取文件所属的扫描目录配置，不在任何扫描目录内时使用全局配置
+  private getScanDir(file: string): Omit<ResolvedScanDir, "exclude" | "extensions"> {
+    return findScanDir(file, this.context) ?? {
+      dir: "",
+      pathPrefix: this.options.pathPrefix,
+      meta: {},
+    };
+  }
+
+  // 获取文件相对所属扫描目录、不含扩展名的路径，用于匹配同名文件与目录
+  // 路由组布局 (group)/_layout 使用路由组目录作为键，成为组内页面的父路由
+  private getRouteKey(file: string): string {
+    const key = getScanDirRelativePath(normalizePath(file), this.options, this.context).replace(/\.[^./]+$/, "");
+    return isGroupLayoutFile(file, this.options, this.context) ? path.posix.dirname(key) : key;
+  }
+
+  // 读取文件所在目录链上的元信息：从扫描目录配置的 meta 开始逐层合并，内层目录覆盖外层
+  // 同一目录中先合并路由组的 _group.ts，再合并 _meta.json/_meta.ts
+  private getDirectoryMeta(file: string): RouteMeta {
+    const { dir, meta: scanDirMeta } = this.getScanDir(file);
+    const relativeDir = path.posix.dirname(getScanDirRelativePath(normalizePath(file), this.options, this.context));
+    const segments = relativeDir === "." ? [] : relativeDir.split("/");
+    const findFile = (currentDir: string, names: string[]) =>
+      names.map(name => path.join(currentDir, name)).find(candidate => fs.existsSync(candidate));
+    let meta: RouteMeta = scanDirMeta;
+
+    for (let depth = 0; depth <= segments.length; depth++) {
+      const currentDir = path.join(dir, ...segments.slice(0, depth));
+
+      const groupMetaFile = depth > 0 && isRouteGroupSegment(segments[depth - 1]) ? findFile(currentDir, GROUP_META_FILES) : undefined;
+      const groupMeta = groupMetaFile ? this.parseCached(groupMetaFile, parseVueFileRouteOptions)?.meta : undefined;
+      if (groupMeta) meta = mergeRouteMeta(meta, groupMeta, this.options.metaMerge);
+
+      const dirMetaFile = findFile(currentDir, DIRECTORY_META_FILES);
+      const dirMeta = dirMetaFile ? this.parseCached(dirMetaFile, parseDirectoryMetaFile) : undefined;
+      if (dirMeta) meta = mergeRouteMeta(meta, dirMeta, this.options.metaMerge);
     }
 
-    // 添加404路由
-    if (this.options.notFound.enabled) {
-      routes.push(this.createNotFoundRoute());
+    return meta;
+  }
+
+  // 查找最近的布局父路由
+  private findParentEntry(entry: RouteEntry, keyMap: Map<string, RouteEntry>): RouteEntry | undefined {
+    const segments = entry.key.split("/").slice(0, -1);
+    while (segments.length > 0) {
+      const parent = keyMap.get(`${entry.scanDir}:${segments.join("/")}`);
+      if (parent) return parent;
+      segments.pop();
+    }
+    return undefined;
+  }
+
+  // 将扁平路由组装为嵌套路由树，子路由使用相对父路由的路径
+  private buildRouteTree(entries: RouteEntry[], parentMap: Map<RouteEntry, RouteEntry>): RouteRecordRaw[] {
+    const acceptedSet = new Set(entries);
+    const fullPaths = new Map(entries.map(entry => [entry, entry.route.path]));
+    const routes: RouteRecordRaw[] = [];
+
+    const findAcceptedParent = (entry: RouteEntry): RouteEntry | undefined => {
+      let parent = parentMap.get(entry);
+      while (parent && !acceptedSet.has(parent)) {
+        parent = parentMap.get(parent);
+      }
+      return parent;
+    };
+
+    for (const entry of entries) {
+      const parent = findAcceptedParent(entry);
+      if (!parent) {
+        routes.push(entry.route);
+        continue;
+      }
+
+      const parentPath = fullPaths.get(parent)!;
+      const childPath = fullPaths.get(entry)!;
+      const parentRoute = parent.route as RouteRecordRaw & { children?: RouteRecordRaw[] };
+
+      if (childPath === parentPath) {
+        // 目录首页作为空路径子路由，路由名称移交给子路由
+        entry.route.path = "";
+        delete parentRoute.name;
+      } else if (childPath.startsWith(`${parentPath.replace(/\/$/, "")}/`)) {
+        entry.route.path = childPath.slice(parentPath.replace(/\/$/, "").length + 1);
+      }
+
+      parentRoute.children = parentRoute.children || [];
+      parentRoute.children.push(entry.route);
     }
 
     return routes;
   }
 
+  // 按具体程度排序路由及其子路由，404 路由在排序后追加，始终位于最后
+  // 路径相同时没有空路径子路由的布局排在后面：Vue Router 按添加顺序匹配同权重的路由，
+  // 否则如顶层路由组布局会先于首页匹配 /，只渲染空的 <router-view>
+  private sortRoutes(routes: RouteRecordRaw[]): RouteRecordRaw[] {
+    for (const route of routes) {
+      if (route.children?.length) this.sortRoutes(route.children);
+    }
+    return routes.sort((a, b) => compareRouteSpecificity(a.path, b.path) || Number(isLayoutOnly(a)) - Number(isLayoutOnly(b)));
+  }
+
   // 检查是否为404页面组件
   private isNotFoundComponent(file: string): boolean {
-    if (!this.options.notFound.enabled || !this.options.notFound.component) {
-      return false;
+    return this.notFoundFile !== null && normalizePath(file) === this.notFoundFile;
+  }
+
+  // 解析404页面组件：优先使用配置的组件，不存在时在扫描目录根部查找 404、NotFound 或 [...all] 页面
+  // 都找不到时跳过404路由，避免运行时加载不存在的模块
+  private resolveNotFoundComponent(files: string[]): string | null {
+    if (!this.options.notFound.enabled) return null;
+
+    const { component } = this.options.notFound;
+    const configuredPath = component ? path.resolve(this.context.root, component) : "";
+    if (configuredPath && fs.existsSync(configuredPath)) return normalizePath(configuredPath);
+
+    const detected = NOT_FOUND_FILE_NAMES
+      .map(name => files.find(file => {
+        const { dir, name: fileName } = path.posix.parse(getScanDirRelativePath(normalizePath(file), this.options, this.context));
+        return dir === "" && fileName === name;
+      }))
+      .find(Boolean);
+
+    if (detected) {
+      if (component) {
+        this.diagnostics.warn("MISSING_NOT_FOUND", `404 component "${component}" does not exist, using ${this.toDisplayPath(detected)} instead`);
+      }
+      return normalizePath(detected);
     }
-    const notFoundComponentPath = normalizePath(path.resolve(this.root, this.options.notFound.component));
-    const normalizedFile = normalizePath(file);
-    return normalizedFile === notFoundComponentPath;
+
+    // 只有显式配置的组件不存在时才视为错误，默认配置下没有404页面是正常情况
+    const message = `${component ? `404 component "${component}" does not exist and no` : "No"} 404.vue, NotFound.vue or [...all].vue page was found, the 404 route is skipped`;
+    if (component && component !== defaultOptions.notFound.component) {
+      this.diagnostics.error("MISSING_NOT_FOUND", message);
+    } else {
+      this.diagnostics.warn("MISSING_NOT_FOUND", message);
+    }
+    return null;
   }
 
   // 从文件创建路由对象
-  private createRouteFromFile(file: string): RouteRecordRaw {
-    const routePath = generateRoutePath(file, this.options);
-    const routeName = generateRouteName(file, this.options);
-    const pageTitle = generatePageTitle(file, this.options);
-    const importStatement = generateImportStatement(file, this.options);
+  private createRouteFromFile(file: string, pageOptions: PageRouteOptions | null): RouteRecordRaw {
+    const routePath = generateRoutePath(file, this.options, this.context);
+    const routeName = generateRouteName(file, this.options, this.context);
+    const pageTitle = generatePageTitle(file, this.options, this.context);
+    const { pathPrefix } = this.getScanDir(file);
     
-    // 获取文件的相对路径信息
-    const normalizedPath = normalizePath(file);
-    const scanDirPath = normalizePath(path.resolve(process.cwd(), this.options.scanDir));
-    const relativePath = path.relative(scanDirPath, normalizedPath);
+    // 获取文件相对所属扫描目录的路径信息
+    const relativePath = getScanDirRelativePath(normalizePath(file), this.options, this.context);
     const pathInfo = path.parse(relativePath);
-    const dirPath = normalizePath(pathInfo.dir);
+    const dirSegments = normalizePath(pathInfo.dir).split("/").filter(segment => segment && segment !== ".");
     
     // 判断是否为首页文件
-    const isHomePageFile_ = isHomePageFile(file, this.options);
+    const isHomePageFile_ = isHomePageFile(file, this.options, this.context);
     
-    // 判断是否为根目录首页（文件在根目录且是首页文件）
-    const isRootHomePage = (dirPath === '' || dirPath === '.') && isHomePageFile_;
+    // 判断是否为根目录首页（文件在根目录或只位于路由组目录中，且是首页文件）
+    const isRootHomePage = dirSegments.every(isRouteGroupSegment) && isHomePageFile_;
     
-    const vueRouteMeta = parseVueFileRouteMeta(file);
+    const component = this.resolveComponent(file, pageOptions?.lazy ?? this.options.lazy);
+    const dirMeta = this.getDirectoryMeta(file);
+    const pageMeta = pageOptions?.meta ?? {};
+    const meta = this.resolveMeta(file, pageTitle ? { title: pageTitle } : {}, dirMeta, pageMeta);
+
+    // 路由组布局：无名称的父路由，路径为路由组所在目录的路径
+    if (isGroupLayoutFile(file, this.options, this.context)) {
+      const dirRoutePath = routePath.split("/").slice(0, -1).join("/");
+      return this.applyPageOverrides({
+        path: joinRoutePath(pathPrefix, `/${dirRoutePath}`),
+        component: component as any,
+        meta: this.resolveMeta(file, {}, dirMeta, pageMeta),
+      }, file, pageOptions);
+    }
 
     // 根目录首页：绑定到根路径 /
     if (isRootHomePage) {
-      return {
-        path: this.options.homeRoute.path || "/",
-        name: this.options.homeRoute.name,
-        component: importStatement as any,
-        meta: {
-          title: vueRouteMeta?.title || pageTitle,
-          ...this.options.meta,
-          ...vueRouteMeta,
-        },
-      };
+      return this.applyPageOverrides({
+        path: joinRoutePath(pathPrefix, this.options.homeRoute.path || "/"),
+        name: prefixRouteName(pathPrefix, this.options.homeRoute.name || "home"),
+        component: component as any,
+        meta,
+      }, file, pageOptions);
     }
     
-    // 子目录首页：绑定到子目录路径
+    // 子目录首页：绑定到子目录路径（目录名同样支持动态路由段）
     if (isHomePageFile_) {
-      return {
-        path: `/${dirPath}`,
-        name: dirPath.replace(/\//g, '-'),
-        component: importStatement as any,
-        meta: {
-          title: vueRouteMeta?.title || pageTitle,
-          ...this.options.meta,
-          ...vueRouteMeta,
-        },
-      };
+      const dirRoutePath = routePath.split("/").slice(0, -1).join("/");
+      return this.applyPageOverrides({
+        path: joinRoutePath(pathPrefix, `/${dirRoutePath}`),
+        name: prefixRouteName(pathPrefix, routePathToName(dirRoutePath)),
+        component: component as any,
+        meta,
+      }, file, pageOptions);
     }
     
     // 普通页面：使用完整路径
-    return {
-      path: `/${routePath}`,
-      name: routeName,
-      component: importStatement as any,
-      meta: {
-        title: vueRouteMeta?.title || pageTitle,
-        ...this.options.meta,
-        ...vueRouteMeta,
-      },
-    };
+    return this.applyPageOverrides({
+      path: joinRoutePath(pathPrefix, `/${routePath}`),
+      name: prefixRouteName(pathPrefix, routeName),
+      component: component as any,
+      meta,
+    }, file, pageOptions);
   }
 
-  // 创建404路由
-  private createNotFoundRoute(): RouteRecordRaw {
-    const routerDir = path.dirname(this.options.output.routes);
-    const notFoundPath = path.resolve(this.root, this.options.notFound.component);
-    const relativeNotFoundPath = normalizePath(path.relative(routerDir, notFoundPath));
+  // 合并元信息，后者覆盖前者：全局 meta → 生成的默认值（如标题）→ 目录元信息 → 页面元信息
+  // 配置了 mergeMeta 时由其合并全局、目录和页面三层元信息
+  private resolveMeta(file: string, defaults: RouteMeta, dirMeta: RouteMeta, pageMeta: RouteMeta): RouteRecordRaw["meta"] {
+    const { metaMerge, mergeMeta } = this.options;
+    const globalMeta = mergeRouteMeta(this.options.meta, defaults, metaMerge);
 
+    if (mergeMeta) {
+      return { ...mergeMeta(globalMeta, dirMeta, pageMeta, file) };
+    }
+    return { ...mergeRouteMeta(mergeRouteMeta(globalMeta, dirMeta, metaMerge), pageMeta, metaMerge) };
+  }
+
+  // 应用页面级路由覆盖配置
+  private applyPageOverrides(route: RouteRecordRaw, file: string, pageOptions: PageRouteOptions | null): RouteRecordRaw {
+    if (!pageOptions) return route;
+
+    const record = route as RouteRecordRaw & Record<string, unknown>;
+    const { pathPrefix } = this.getScanDir(file);
+    const toAbsolute = (routePath: string) => joinRoutePath(pathPrefix, `/${routePath.replace(/^\/+/, "")}`);
+
+    if (pageOptions.path !== undefined) record.path = toAbsolute(pageOptions.path);
+    if (pageOptions.name !== undefined) record.name = pageOptions.name;
+    if (pageOptions.alias !== undefined) {
+      record.alias = Array.isArray(pageOptions.alias) ? pageOptions.alias.map(toAbsolute) : toAbsolute(pageOptions.alias);
+    }
+    if (pageOptions.redirect !== undefined) record.redirect = pageOptions.redirect;
+    if (pageOptions.props !== undefined) record.props = pageOptions.props;
+    if (pageOptions.sensitive !== undefined) record.sensitive = pageOptions.sensitive;
+    if (pageOptions.strict !== undefined) record.strict = pageOptions.strict;
+
+    // 路由独享守卫保存为页面具名导出的引用，由路由模板生成按需加载页面模块的代码，不影响页面懒加载
+    if (pageOptions.beforeEnter !== undefined) {
+      const guard: PageGuardReference = {
+        importPath: generateImportPath(file, this.options, this.context),
+        exportName: pageOptions.beforeEnter,
+      };
+      const fields: Record<string, unknown> = record;
+      fields.beforeEnter = guard;
+    }
+
+    return route;
+  }
+
+  // 创建404路由
+  private createNotFoundRoute(file: string, pageOptions: PageRouteOptions | null): RouteRecordRaw {
     return {
-      path: this.options.notFound.path,
-      name: this.options.notFound.name,
-      component: `() => import('${relativeNotFoundPath}')` as any,
-      meta: {
-        title: "404 Not Found",
-        hidden: true,
-        ...this.options.meta,
-      },
+      path: joinRoutePath(this.options.pathPrefix, this.options.notFound.path),
+      name: prefixRouteName(this.options.pathPrefix, this.options.notFound.name),
+      component: this.resolveComponent(file, pageOptions?.lazy ?? this.options.lazy) as any,
+      meta: this.resolveMeta(file, { title: "404 Not Found", hidden: true }, {}, pageOptions?.meta ?? {}),
     };
   }
 
-  // 生成文件内容
-  async generateRoutesFile(): Promise<string> {
+  // 解析组件引用：懒加载时返回动态导入，否则登记静态导入并返回组件标识符
+  private resolveComponent(file: string, lazy: boolean): string {
+    if (lazy) {
+      return generateImportStatement(file, this.options, this.context);
+    }
+
+    const existing = this.staticImports.get(file);
+    if (existing) return existing.name;
+
+    const usedNames = new Set([...this.staticImports.values()].map(item => item.name));
+    const baseName = generateComponentIdentifier(file, this.options, this.context);
+    let name = baseName;
+    for (let index = 2; usedNames.has(name); index++) {
+      name = `${baseName}${index}`;
+    }
+
+    this.staticImports.set(file, { name, path: generateImportPath(file, this.options, this.context) });
+    return name;
+  }
+
+  // 生成文件内容，虚拟模块不经过 TypeScript 转换，需要生成 JavaScript
+  async generateRoutesFile(format: "ts" | "js" = "ts"): Promise<string> {
+    const routes = await this.generateRoutes();
+    return generateRoutesTemplate(routes, [...this.staticImports.values()], format, this.options.output.hash, this.options.hmr?.runtime);
+  }
+
+  async generateTypesFile(): Promise<string> {
     const routes = await this.generateRoutes();
-    return generateRoutesTemplate(routes);
+    return generateTypedRouterTemplate(routes);
   }
 
   generateConfigFile(): string {
@@ -159,14 +620,14 @@ export class RouteGenerator {
   // 写入文件
   async writeFiles(): Promise<void> {
     try {
-      const [routesContent, configContent] = await Promise.all([
-        this.generateRoutesFile(),
-        Promise.resolve(this.generateConfigFile()),
-      ]);
+      const routes = await this.generateRoutes();
+      const routesContent = generateRoutesTemplate(routes, [...this.staticImports.values()], "ts", this.options.output.hash, this.options.hmr?.runtime);
+      const typesContent = this.options.output.types ? generateTypedRouterTemplate(routes) : "";
+      const configContent = this.generateConfigFile();
 
       // 只有在guards文件不存在时才生成，避免覆盖用户自定义的guards
       let guardsContent = "";
-      const guardsPath = path.resolve(this.root, this.options.output.guards);
+      const guardsPath = path.resolve(this.context.root, this.options.output.guards);
       let shouldWriteGuards = false;
       
       if (!fs.existsSync(guardsPath)) {
@@ -175,21 +636,26 @@ export class RouteGenerator {
       }
 
       // 计算内容哈希，避免不必要的重新生成
-      const contentForHash = routesContent + configContent + (shouldWriteGuards ? guardsContent : "");
+      const contentForHash = routesContent + typesContent + configContent + (shouldWriteGuards ? guardsContent : "");
       const contentHash = this.calculateContentHash(contentForHash);
       if (contentHash === this.lastGeneratedHash) {
         return;
       }
 
-      const { routes, config, guards } = this.options.output;
+      const { config, guards, types } = this.options.output;
 
-      // 写入文件
-      this.writeFileIfChanged(path.resolve(this.root, routes), routesContent);
-      this.writeFileIfChanged(path.resolve(this.root, config), configContent);
+      // 写入文件，虚拟模块模式下路由和配置由插件直接提供
+      if (!this.options.virtual) {
+        this.writeFileIfChanged(path.resolve(this.context.root, this.options.output.routes), routesContent);
+        this.writeFileIfChanged(path.resolve(this.context.root, config), configContent);
+      }
+      if (types) {
+        this.writeFileIfChanged(path.resolve(this.context.root, types), typesContent);
+      }
       
       // 只在首次生成时写入guards文件
       if (shouldWriteGuards) {
-        this.writeFileIfChanged(path.resolve(this.root, guards), guardsContent);
+        this.writeFileIfChanged(path.resolve(this.context.root, guards), guardsContent);
         console.log(`🛡️ [${path.basename(guards)}] Guards file generated. You can customize it now.`);
       }
 
@@ -228,3 +694,8 @@ export class RouteGenerator {
     fs.renameSync(tempPath, filePath);
   }
 }
+
+// 判断路由是否只作为布局：有子路由但没有渲染在自身路径上的空路径子路由
+function isLayoutOnly(route: RouteRecordRaw): boolean {
+  return !!route.children?.length && !route.children.some(child => child.path === "");
+}
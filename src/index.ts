@@ -1,27 +1,66 @@
-import type { Plugin, ViteDevServer } from "vite";
-import type { AutoRouterOptions } from "./types";
-import { mergeOptions, PLUGIN_NAME, SUPPORTED_EXTENSIONS, validateOptions } from "./utils";
+import type { Logger, Plugin, ViteDevServer } from "vite";
+import type { AutoRouterOptions, Diagnostic, FileChangeEvent, PathContext } from "./types";
+import { mergeDefaultOptions, PLUGIN_NAME, collectOptionDiagnostics, VIRTUAL_ROUTES_ID, VIRTUAL_CONFIG_ID, matchRouteFile, createPathContext, findScanDir, getScanDirWatchPaths, matchesScanDirPattern } from "./utils";
 import { RouteGenerator } from "./generator";
+import { stripRouteConfig } from "./parser";
+import { formatDiagnostic, getDiagnosticErrors } from "./diagnostics";
 import path from "path";
 import fs from "fs";
 
 // Vite插件主函数
 export function vueAutoRouter(options?: AutoRouterOptions): Plugin {
-  const mergedOptions = mergeOptions(options);
+  const mergedOptions = mergeDefaultOptions(options);
   let generator: RouteGenerator;
+  let pathContext: PathContext;
   let isInitialized = false;
   let server: ViteDevServer | null = null;
   let isGenerating = false;
   let pendingRegeneration = false;
+  let isBuild = false;
+  let logger: Pick<Logger, "warn" | "error"> = { warn: console.warn, error: console.error };
+  let lastReportedDiagnostics = "";
 
-  // 验证配置
-  if (options) {
-    const errors = validateOptions(options);
-    if (errors.length > 0) {
-      console.warn(`[${PLUGIN_NAME}] Configuration warnings:`);
-      errors.forEach(error => console.warn(`  - ${error}`));
+  // 虚拟模块内容缓存，键为解析后的模块ID
+  const virtualModules = new Map<string, string>();
+  const resolvedRoutesId = `\0${VIRTUAL_ROUTES_ID}`;
+  const resolvedConfigId = `\0${VIRTUAL_CONFIG_ID}`;
+
+  // 验证配置，配置错误在 configResolved 时通过 Vite 日志输出
+  const optionDiagnostics = options ? collectOptionDiagnostics(options) : [];
+
+  // 收集配置和最近一次生成路由的诊断信息
+  const getDiagnostics = (): Diagnostic[] => [...optionDiagnostics, ...(generator?.getDiagnostics() ?? [])];
+
+  // 通过 Vite 日志输出诊断，开发模式下将错误发送到浏览器的错误遮罩层
+  // 诊断没有变化时不重复输出，避免每次文件变化都刷屏
+  const reportDiagnostics = () => {
+    const diagnostics = getDiagnostics();
+    const lines = diagnostics.map(formatDiagnostic);
+    if (lines.join("\n") === lastReportedDiagnostics) return;
+    lastReportedDiagnostics = lines.join("\n");
+
+    diagnostics.forEach((diagnostic, index) => {
+      const message = `[${PLUGIN_NAME}] ${lines[index]}`;
+      if (diagnostic.level === "error") {
+        logger.error(message);
+      } else {
+        logger.warn(message);
+      }
+    });
+
+    const errors = getDiagnosticErrors(diagnostics);
+    if (server && errors.length > 0) {
+      server.ws.send({
+        type: "error",
+        err: {
+          message: errors.map(formatDiagnostic).join("\n"),
+          stack: "",
+          id: errors[0].file,
+          plugin: PLUGIN_NAME,
+        },
+      });
     }
-  }
+  };
 
   // 防抖生成路由的方法
   const generateRoutesDebounced = (() => {
@@ -57,10 +96,12 @@ export function vueAutoRouter(options?: AutoRouterOptions): Plugin {
       console.log(`🔄 [${PLUGIN_NAME}] ${trigger}, regenerating routes...`);
       
       await generator.writeFiles();
+      reportDiagnostics();
       
       // 在开发模式下，通知Vite重新加载路由模块
       if (server) {
-        await invalidateRouteModules();
+        await (mergedOptions.virtual ? invalidateVirtualModules() : invalidateRouteModules());
+        reloadModules(getExtraInvalidateModules());
       }
       
       console.log(`✅ [${PLUGIN_NAME}] Routes regenerated successfully`);
@@ -71,18 +112,23 @@ export function vueAutoRouter(options?: AutoRouterOptions): Plugin {
     }
   };
 
-  // 使路由相关模块失效，触发HMR
+  // 使生成的路由和配置模块失效，触发HMR
   const invalidateRouteModules = async () => {
-    if (!server) return;
+    reloadModules([mergedOptions.output.routes, mergedOptions.output.config]);
+  };
 
-    const routeFiles = [
-      mergedOptions.output.routes,
-      mergedOptions.output.config,
-      "src/router/index.ts"
-    ];
+  // 需要一并重新加载的 hmr.invalidate 模块
+  // hmr.runtime 开启时路由在路由实例上热替换，重新加载没有 HMR 边界的路由入口会导致整页刷新，因此跳过
+  const getExtraInvalidateModules = (): string[] => {
+    return mergedOptions.hmr.runtime ? [] : mergedOptions.hmr.invalidate;
+  };
 
-    for (const routeFile of routeFiles) {
-      const fullPath = path.resolve(server.config.root, routeFile);
+  // 重新加载模块图中存在的模块，路径相对项目根目录
+  const reloadModules = (files: string[]) => {
+    if (!server) return;
+
+    for (const file of files) {
+      const fullPath = path.resolve(pathContext.root, file);
       const module = server.moduleGraph.getModuleById(fullPath);
       
       if (module) {
@@ -91,37 +137,41 @@ export function vueAutoRouter(options?: AutoRouterOptions): Plugin {
     }
   };
 
-  // 判断是否需要重新生成路由
-  const shouldRegenerateRoutes = (file: string): boolean => {
-    // 标准化路径处理
-    const normalizedFile = path.normalize(file);
-    const scanDirPath = path.resolve(process.cwd(), mergedOptions.scanDir);
-    const normalizedScanDir = path.normalize(scanDirPath);
-    
-    // 检查文件是否在扫描目录内
-    if (!normalizedFile.startsWith(normalizedScanDir)) return false;
+  // 生成虚拟模块内容
+  const loadVirtualModule = async (id: string): Promise<string> => {
+    return id === resolvedRoutesId ? generator.generateRoutesFile("js") : generator.generateConfigFile();
+  };
 
-    // 检查文件扩展名
-    if (!SUPPORTED_EXTENSIONS.includes(path.extname(file))) return false;
+  // 重新生成虚拟模块，内容变化时通过模块图使其失效，触发HMR
+  const invalidateVirtualModules = async () => {
+    if (!server) return;
 
-    // 排除组件目录和测试文件
-    const relativePath = path.relative(normalizedScanDir, normalizedFile);
-    const normalizedRelativePath = relativePath.replace(/\\/g, "/");
-    
-    return !mergedOptions.exclude.some(excludePattern => {
-      const cleanPattern = excludePattern.replace(/\*\*/g, "").replace(/\*/g, "");
-      return normalizedRelativePath.includes(cleanPattern);
-    });
+    for (const id of [resolvedRoutesId, resolvedConfigId]) {
+      const content = await loadVirtualModule(id);
+      if (virtualModules.get(id) === content) continue;
+      virtualModules.set(id, content);
+
+      const module = server.moduleGraph.getModuleById(id);
+      if (module) {
+        server.moduleGraph.invalidateModule(module);
+        server.reloadModule(module);
+      }
+    }
+  };
+
+  // 判断是否需要重新生成路由，与 scanFiles 使用相同的匹配规则
+  const shouldRegenerateRoutes = (file: string): boolean => {
+    return matchRouteFile(file, pathContext) !== undefined;
   };
 
   // 设置文件监听器
   const setupFileWatcher = (server: ViteDevServer) => {
-    const scanDirPath = path.resolve(server.config.root, mergedOptions.scanDir);
-    const normalizedScanDir = path.normalize(scanDirPath);
-    
-    // 只监听扫描目录
-    if (fs.existsSync(normalizedScanDir)) {
-      server.watcher.add(normalizedScanDir);
+    // 只监听扫描目录，glob 模式的扫描目录监听其基础目录
+    for (const watchPath of getScanDirWatchPaths(mergedOptions, pathContext.root)) {
+      const normalizedWatchPath = path.normalize(watchPath);
+      if (fs.existsSync(normalizedWatchPath)) {
+        server.watcher.add(normalizedWatchPath);
+      }
     }
 
     // 防抖缓存，避免重复检查
@@ -147,24 +197,31 @@ export function vueAutoRouter(options?: AutoRouterOptions): Plugin {
       return result;
     };
 
-    const handleFileChange = (eventType: string) => (file: string) => {
-      if (shouldRegenerateRoutesWithCache(file)) {
+    // 先增量更新生成器的文件列表和解析缓存，路由可能受影响时才重新生成
+    const handleFileChange = (event: FileChangeEvent, eventType: string, delay?: number) => (file: string) => {
+      if (shouldRegenerateRoutesWithCache(file) && generator.updateFile(file, event)) {
         const fileName = path.basename(file);
-        generateRoutesDebounced(`File ${eventType}: ${fileName}`);
+        generateRoutesDebounced(`File ${eventType}: ${fileName}`, delay);
       }
     };
 
     // 监听文件变化事件
-    server.watcher.on("add", handleFileChange("added"));
-    server.watcher.on("unlink", handleFileChange("removed"));
+    server.watcher.on("add", handleFileChange("add", "added"));
+    server.watcher.on("unlink", handleFileChange("unlink", "removed"));
     
     // 对于change事件，使用更长的防抖延迟，避免频繁重新生成
-    server.watcher.on("change", (file: string) => {
-      if (shouldRegenerateRoutesWithCache(file)) {
-        const fileName = path.basename(file);
-        generateRoutesDebounced(`File changed: ${fileName}`, 300);
+    // 只修改模板等与路由无关的内容时不会重新生成
+    server.watcher.on("change", handleFileChange("change", "changed", 300));
+
+    // 扫描目录中的目录增删，或匹配 glob 模式的扫描目录增删时，重新解析扫描目录并扫描文件列表
+    const handleDirChange = (eventType: string) => (dir: string) => {
+      if (findScanDir(dir, pathContext) || matchesScanDirPattern(dir, mergedOptions, pathContext.root)) {
+        generator.resetFileList();
+        generateRoutesDebounced(`Directory ${eventType}: ${path.basename(dir)}`);
       }
-    });
+    };
+    server.watcher.on("addDir", handleDirChange("added"));
+    server.watcher.on("unlinkDir", handleDirChange("removed"));
   };
 
   return {
@@ -175,8 +232,13 @@ export function vueAutoRouter(options?: AutoRouterOptions): Plugin {
 
     // 插件配置
     configResolved(config) {
+      isBuild = config.command === "build";
+      logger = config.logger ?? logger;
+
       try {
-        generator = new RouteGenerator(mergedOptions, config.root);
+        // 所有路径都相对 Vite 的 root 解析，而不是当前工作目录
+        pathContext = createPathContext(mergedOptions, config.root);
+        generator = new RouteGenerator(mergedOptions, pathContext);
         isInitialized = true;
       } catch (error) {
         console.error(`[${PLUGIN_NAME}] Failed to initialize generator:`, error);
@@ -188,6 +250,40 @@ export function vueAutoRouter(options?: AutoRouterOptions): Plugin {
       if (isInitialized && generator) {
         await generateRoutes("Build started");
       }
+
+      // 严格模式下存在错误时使构建失败
+      const errors = getDiagnosticErrors(getDiagnostics());
+      if (mergedOptions.strict && isBuild && errors.length > 0) {
+        this.error(`Route generation failed with ${errors.length} error(s):\n${errors.map(formatDiagnostic).join("\n")}`);
+      }
+    },
+
+    // 虚拟模块模式下解析 virtual:auto-routes 和 virtual:auto-routes/config
+    resolveId(id) {
+      if (!mergedOptions.virtual) return null;
+      if (id === VIRTUAL_ROUTES_ID) return resolvedRoutesId;
+      if (id === VIRTUAL_CONFIG_ID) return resolvedConfigId;
+      return null;
+    },
+
+    async load(id) {
+      if (!isInitialized || (id !== resolvedRoutesId && id !== resolvedConfigId)) return null;
+
+      if (!virtualModules.has(id)) {
+        virtualModules.set(id, await loadVirtualModule(id));
+        reportDiagnostics();
+      }
+      return virtualModules.get(id);
+    },
+
+    // 移除页面中仅用于生成路由的 <route> 块和编译期宏
+    transform(code, id) {
+      // 兜底：其他插件单独请求 <route> 块时返回空模块
+      if (/[?&]type=route\b/.test(id)) {
+        return { code: "export default {}", map: null };
+      }
+      if (!id.endsWith(".vue")) return null;
+      return stripRouteConfig(code, id);
     },
 
     // 开发模式下监听文件变化
@@ -201,7 +297,25 @@ export function vueAutoRouter(options?: AutoRouterOptions): Plugin {
 }
 
 // 导出类型和工具
-export type { AutoRouterOptions, RouteMeta, NamingConfig, HomeRouteConfig, NotFoundConfig, OutputConfig } from "./types";
+export type {
+  AutoRouterOptions,
+  Diagnostic,
+  DiagnosticCode,
+  RouteMeta,
+  PageRouteOptions,
+  NamingConfig,
+  HomeRouteConfig,
+  NotFoundConfig,
+  ScanDirConfig,
+  OutputConfig,
+  HmrConfig,
+  ArrayMergeStrategy,
+  MetaMergeConfig,
+  MergeMetaFunction,
+  ExtendRouteContext,
+  ExtendRouteHook,
+  RoutesGeneratedHook,
+} from "./types";
 export { mergeOptions } from "./utils";
 export { RouteGenerator } from "./generator";
 
@@ -0,0 +1,475 @@
+import { parse as parseSFC, babelParse, MagicString } from "@vue/compiler-sfc";
+import type { SFCBlock, SFCDescriptor } from "@vue/compiler-sfc";
+import type { CallExpression, Expression, Node, ObjectExpression, Statement } from "@babel/types";
+import YAML from "yaml";
+import type { PageRouteOptions, ParseWarning, RouteMeta } from "./types";
+
+// 读取路由配置的编译宏
+const ROUTE_MACROS = ["defineOptions", "definePage"];
+
+// 仅在编译期使用、需要从产物中移除的宏
+const COMPILE_TIME_MACROS = ["definePage"];
+
+// 路由配置自定义块的类型名
+const ROUTE_BLOCK_TYPE = "route";
+
+// <route> 块的开始标签，不匹配 <router-view>、<router-link> 等组件
+const ROUTE_BLOCK_TAG = new RegExp(`<${ROUTE_BLOCK_TYPE}[\\s>]`);
+
+// 无法静态求值的标记
+const NON_LITERAL = Symbol("non-literal");
+
+// 页面级路由配置字段的校验规则
+const PAGE_OPTION_VALIDATORS: Record<keyof PageRouteOptions, { check: (value: unknown) => boolean; expected: string }> = {
+  path: { check: value => typeof value === "string", expected: "a string" },
+  name: { check: value => typeof value === "string", expected: "a string" },
+  alias: {
+    check: value => typeof value === "string" || (Array.isArray(value) && value.every(item => typeof item === "string")),
+    expected: "a string or an array of strings",
+  },
+  redirect: { check: value => typeof value === "string" || isPlainObject(value), expected: "a string or an object" },
+  props: { check: value => typeof value === "boolean" || isPlainObject(value), expected: "a boolean or an object" },
+  beforeEnter: { check: value => typeof value === "string" && /^[A-Za-z_$][\w$]*$/.test(value), expected: "the name of a named export" },
+  sensitive: { check: value => typeof value === "boolean", expected: "a boolean" },
+  strict: { check: value => typeof value === "boolean", expected: "a boolean" },
+  meta: { check: isPlainObject, expected: "an object" },
+  lazy: { check: value => typeof value === "boolean", expected: "a boolean" },
+};
+
+// defineOptions/export default 中读取的字段，其余为组件选项；路由级配置放在 route 字段中
+const COMPONENT_ROUTE_KEYS = ["meta", "lazy", "route"];
+
+// 包含路由配置的对象及其来源
+interface RouteOptionObject {
+  object: ObjectExpression;
+  /** 是否为 definePage：其所有字段都是路由配置 */
+  isPageMacro: boolean;
+}
+
+// 待解析的脚本块
+interface ScriptBlock {
+  content: string;
+  lang: string;
+  /** 脚本块在源文件中的起始行（从1开始） */
+  startLine: number;
+  /** 脚本块在源文件中的起始偏移 */
+  startOffset: number;
+}
+
+// 解析上下文
+interface ParseContext {
+  file: string;
+  block: ScriptBlock;
+  onWarning: (warning: ParseWarning) => void;
+}
+
+/**
+ * 从页面源码中静态提取路由配置
+ * 支持 <route> 自定义块、<script setup> 中的 defineOptions/definePage，以及 <script> 中的 export default
+ * @param source 文件内容
+ * @param file 文件路径，用于判断文件类型和输出警告
+ * @param onWarning 警告回调
+ * @returns 页面路由配置，未找到时返回null
+ */
+export function parseRouteOptionsFromSource(
+  source: string,
+  file: string,
+  onWarning: (warning: ParseWarning) => void = () => {}
+): PageRouteOptions | null {
+  const result: PageRouteOptions = {};
+  const descriptor = parseDescriptor(source, file);
+  const exportedNames = new Set<string>();
+
+  // <route> 块的优先级低于脚本中的配置
+  for (const block of getRouteBlocks(descriptor)) {
+    mergePageOptions(result, parseRouteBlock(block, file, onWarning));
+  }
+
+  for (const block of extractScriptBlocks(source, file, descriptor)) {
+    const program = parseScript(block, file, onWarning);
+    if (!program) continue;
+
+    collectExportedNames(program).forEach(name => exportedNames.add(name));
+
+    const context: ParseContext = { file, block, onWarning };
+    for (const options of findRouteOptionObjects(program)) {
+      mergePageOptions(result, extractPageOptions(options, context));
+    }
+  }
+
+  // beforeEnter 必须引用页面 <script> 中的具名导出
+  if (result.beforeEnter && !exportedNames.has(result.beforeEnter)) {
+    onWarning({ file, message: `beforeEnter "${result.beforeEnter}" is not a named export of the page` });
+    delete result.beforeEnter;
+  }
+
+  return Object.keys(result).length > 0 ? result : null;
+}
+
+/**
+ * 移除源码中仅用于生成路由的配置（<route> 块和 definePage 等编译期宏），避免运行时报错
+ * @param source 文件内容
+ * @param file 文件路径
+ * @returns 转换结果，无需转换时返回null
+ */
+export function stripRouteConfig(source: string, file: string): { code: string; map: ReturnType<MagicString["generateMap"]> } | null {
+  const hasRouteBlock = ROUTE_BLOCK_TAG.test(source);
+  if (!hasRouteBlock && !COMPILE_TIME_MACROS.some(macro => source.includes(macro))) return null;
+
+  const s = new MagicString(source);
+  const descriptor = parseDescriptor(source, file);
+
+  for (const block of getRouteBlocks(descriptor)) {
+    const start = source.lastIndexOf(`<${ROUTE_BLOCK_TYPE}`, block.loc.start.offset);
+    const closeTag = `</${ROUTE_BLOCK_TYPE}>`;
+    const end = source.indexOf(closeTag, block.loc.end.offset);
+    if (start !== -1 && end !== -1) s.remove(start, end + closeTag.length);
+  }
+
+  for (const block of extractScriptBlocks(source, file, descriptor)) {
+    const program = parseScript(block, file, () => {});
+    if (!program) continue;
+
+    for (const statement of program) {
+      const call = getMacroCall(statement, COMPILE_TIME_MACROS);
+      if (call && statement.start != null && statement.end != null) {
+        s.remove(block.startOffset + statement.start, block.startOffset + statement.end);
+      }
+    }
+  }
+
+  if (!s.hasChanged()) return null;
+  return { code: s.toString(), map: s.generateMap({ source: file, hires: true }) };
+}
+
+/**
+ * 从目录元信息文件中静态提取元信息
+ * _meta.json 的内容即为元信息，_meta.ts/_meta.js 通过 export default 导出元信息对象
+ * @param source 文件内容
+ * @param file 文件路径，用于判断文件类型和输出警告
+ * @param onWarning 警告回调
+ * @returns 元信息，文件无效时返回null
+ */
+export function parseMetaFileSource(
+  source: string,
+  file: string,
+  onWarning: (warning: ParseWarning) => void = () => {}
+): RouteMeta | null {
+  if (file.endsWith(".json")) {
+    try {
+      const data: unknown = source.trim() ? JSON.parse(source) : {};
+      if (isPlainObject(data)) return data as RouteMeta;
+      onWarning({ file, message: "Meta file must contain an object" });
+    } catch (error) {
+      onWarning({ file, message: `Failed to parse meta file: ${(error as Error).message}` });
+    }
+    return null;
+  }
+
+  const [block] = extractScriptBlocks(source, file, null);
+  const program = parseScript(block, file, onWarning);
+  if (!program) return null;
+
+  const context: ParseContext = { file, block, onWarning };
+  for (const statement of program) {
+    if (statement.type !== "ExportDefaultDeclaration") continue;
+
+    let declaration = unwrapExpression(statement.declaration as Expression);
+    // export default defineMeta({...})
+    if (declaration?.type === "CallExpression") {
+      declaration = unwrapExpression(declaration.arguments[0] as Expression | undefined);
+    }
+    if (declaration?.type === "ObjectExpression") {
+      return evaluateLiteral(declaration, context) as RouteMeta;
+    }
+  }
+
+  onWarning({ file, message: "Meta file must export default an object" });
+  return null;
+}
+
+// 解析 SFC，非 .vue 文件返回null
+function parseDescriptor(source: string, file: string): SFCDescriptor | null {
+  return file.endsWith(".vue") ? parseSFC(source, { filename: file }).descriptor : null;
+}
+
+// 获取 <route> 自定义块
+function getRouteBlocks(descriptor: SFCDescriptor | null): SFCBlock[] {
+  return descriptor?.customBlocks.filter(block => block.type === ROUTE_BLOCK_TYPE) ?? [];
+}
+
+// 解析 <route lang="yaml|json"> 自定义块
+function parseRouteBlock(block: SFCBlock, file: string, onWarning: (warning: ParseWarning) => void): PageRouteOptions {
+  const lang = block.lang || "json";
+  const report = (message: string) => onWarning({ file, line: block.loc.start.line, message });
+
+  let data: unknown;
+  try {
+    if (lang === "yaml" || lang === "yml") {
+      data = YAML.parse(block.content);
+    } else if (lang === "json") {
+      data = block.content.trim() ? JSON.parse(block.content) : {};
+    } else {
+      report(`Unsupported <route> block lang "${lang}", expected "json" or "yaml"`);
+      return {};
+    }
+  } catch (error) {
+    report(`Failed to parse <route> block: ${(error as Error).message}`);
+    return {};
+  }
+
+  if (data === null || data === undefined) return {};
+  if (!isPlainObject(data)) {
+    report("<route> block must contain an object");
+    return {};
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const error = validatePageOption(key, value);
+    if (error) {
+      report(error);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result as PageRouteOptions;
+}
+
+// 按校验规则检查页面级路由配置字段，返回错误信息
+function validatePageOption(key: string, value: unknown): string | null {
+  const validator = PAGE_OPTION_VALIDATORS[key as keyof PageRouteOptions];
+  if (!validator) return `Unknown route option "${key}"`;
+  if (!validator.check(value)) return `Route option "${key}" must be ${validator.expected}`;
+  return null;
+}
+
+// 提取文件中的脚本块，.vue 文件取 SFC 的脚本块，其余文件整体视为脚本
+function extractScriptBlocks(source: string, file: string, descriptor: SFCDescriptor | null): ScriptBlock[] {
+  if (!descriptor) {
+    const lang = file.endsWith(".ts") || file.endsWith(".tsx") ? "ts" : "js";
+    return [{ content: source, lang, startLine: 1, startOffset: 0 }];
+  }
+
+  return [descriptor.script, descriptor.scriptSetup]
+    .filter(block => block !== null)
+    .map(block => ({
+      content: block.content,
+      lang: block.lang || "js",
+      startLine: block.loc.start.line,
+      startOffset: block.loc.start.offset,
+    }));
+}
+
+// 使用 babel 解析脚本内容
+function parseScript(block: ScriptBlock, file: string, onWarning: (warning: ParseWarning) => void): Statement[] | null {
+  const plugins: ("typescript" | "jsx")[] = [];
+  if (block.lang === "ts" || block.lang === "tsx") plugins.push("typescript");
+  if (block.lang === "tsx" || block.lang === "jsx") plugins.push("jsx");
+
+  try {
+    return babelParse(block.content, { sourceType: "module", plugins }).program.body;
+  } catch (error) {
+    const line = (error as { loc?: { line: number } }).loc?.line;
+    onWarning({
+      file,
+      line: line !== undefined ? block.startLine + line - 1 : undefined,
+      message: `Failed to parse script: ${(error as Error).message}`,
+    });
+    return null;
+  }
+}
+
+// 查找包含路由配置的对象：defineOptions({...})、definePage({...})、export default {...}
+function findRouteOptionObjects(program: Statement[]): RouteOptionObject[] {
+  const objects: RouteOptionObject[] = [];
+
+  for (const statement of program) {
+    const call = getMacroCall(statement, ROUTE_MACROS);
+    if (call) {
+      const arg = unwrapExpression(call.arguments[0] as Expression | undefined);
+      const isPageMacro = COMPILE_TIME_MACROS.includes((call.callee as { name: string }).name);
+      if (arg?.type === "ObjectExpression") objects.push({ object: arg, isPageMacro });
+      continue;
+    }
+
+    if (statement.type === "ExportDefaultDeclaration") {
+      let declaration = unwrapExpression(statement.declaration as Expression);
+      // export default defineComponent({...})
+      if (declaration?.type === "CallExpression") {
+        declaration = unwrapExpression(declaration.arguments[0] as Expression | undefined);
+      }
+      if (declaration?.type === "ObjectExpression") objects.push({ object: declaration, isPageMacro: false });
+    }
+  }
+
+  return objects;
+}
+
+// 收集脚本中的具名导出
+function collectExportedNames(program: Statement[]): string[] {
+  const names: string[] = [];
+
+  for (const statement of program) {
+    if (statement.type !== "ExportNamedDeclaration") continue;
+
+    const declaration = statement.declaration;
+    if (declaration?.type === "FunctionDeclaration" && declaration.id) {
+      names.push(declaration.id.name);
+    } else if (declaration?.type === "VariableDeclaration") {
+      for (const declarator of declaration.declarations) {
+        if (declarator.id.type === "Identifier") names.push(declarator.id.name);
+      }
+    }
+
+    for (const specifier of statement.specifiers) {
+      if (specifier.type === "ExportSpecifier") names.push(getPropertyKey(specifier.exported));
+    }
+  }
+
+  return names;
+}
+
+// 获取语句中的宏调用
+function getMacroCall(statement: Statement, macros: string[]): CallExpression | null {
+  if (statement.type !== "ExpressionStatement") return null;
+  const expression = statement.expression;
+  if (expression.type !== "CallExpression" || expression.callee.type !== "Identifier") return null;
+  return macros.includes(expression.callee.name) ? expression : null;
+}
+
+// 从配置对象中提取路由相关字段
+function extractPageOptions({ object, isPageMacro }: RouteOptionObject, context: ParseContext): PageRouteOptions {
+  const result: Record<string, unknown> = {};
+
+  const pick = (key: string, value: unknown, node: Node) => {
+    const error = validatePageOption(key, value);
+    if (error) {
+      warn(context, node, error);
+    } else {
+      result[key] = value;
+    }
+  };
+
+  for (const property of object.properties) {
+    if (property.type !== "ObjectProperty" || property.computed) continue;
+    const key = getPropertyKey(property.key);
+    if (!isPageMacro && !COMPONENT_ROUTE_KEYS.includes(key)) continue;
+
+    const value = evaluateLiteral(property.value, context);
+    if (value === NON_LITERAL) continue;
+
+    if (key !== "route" || isPageMacro) {
+      pick(key, value, property.value);
+    } else if (isPlainObject(value)) {
+      // defineOptions({ route: { path, name, ... } })
+      Object.entries(value).forEach(([routeKey, routeValue]) => pick(routeKey, routeValue, property.value));
+    } else {
+      warn(context, property.value, `Route option "route" must be an object`);
+    }
+  }
+
+  return result as PageRouteOptions;
+}
+
+// 合并多个配置来源，后出现的优先，meta 逐项合并
+function mergePageOptions(target: PageRouteOptions, source: PageRouteOptions): void {
+  const { meta, ...rest } = source;
+  Object.assign(target, rest);
+  if (meta) target.meta = { ...target.meta, ...meta };
+}
+
+// 静态求值字面量表达式，无法求值时输出警告并返回 NON_LITERAL
+function evaluateLiteral(node: Node, context: ParseContext): unknown {
+  const expression = unwrapExpression(node as Expression);
+  if (!expression) return undefined;
+
+  switch (expression.type) {
+    case "StringLiteral":
+    case "NumericLiteral":
+    case "BooleanLiteral":
+      return expression.value;
+    case "NullLiteral":
+      return null;
+    case "TemplateLiteral":
+      if (expression.expressions.length === 0) {
+        return expression.quasis.map(quasi => quasi.value.cooked ?? quasi.value.raw).join("");
+      }
+      break;
+    case "Identifier":
+      if (expression.name === "undefined") return undefined;
+      break;
+    case "UnaryExpression": {
+      const argument = evaluateLiteral(expression.argument, context);
+      if (argument === NON_LITERAL) return NON_LITERAL;
+      if (expression.operator === "-" && typeof argument === "number") return -argument;
+      if (expression.operator === "+" && typeof argument === "number") return argument;
+      if (expression.operator === "!") return !argument;
+      break;
+    }
+    case "ArrayExpression": {
+      const items: unknown[] = [];
+      for (const element of expression.elements) {
+        if (!element || element.type === "SpreadElement") {
+          warn(context, element ?? expression, "array holes and spread elements are not supported");
+          return NON_LITERAL;
+        }
+        const value = evaluateLiteral(element, context);
+        if (value === NON_LITERAL) return NON_LITERAL;
+        items.push(value);
+      }
+      return items;
+    }
+    case "ObjectExpression": {
+      const object: Record<string, unknown> = {};
+      // 无法求值的属性会被跳过，其余字面量属性照常保留
+      for (const property of expression.properties) {
+        if (property.type !== "ObjectProperty" || property.computed) {
+          warn(context, property, "only plain object properties are supported");
+          continue;
+        }
+        const value = evaluateLiteral(property.value, context);
+        if (value === NON_LITERAL) continue;
+        object[getPropertyKey(property.key)] = value;
+      }
+      return object;
+    }
+  }
+
+  warn(context, expression, `non-literal expression (${expression.type}) cannot be statically evaluated`);
+  return NON_LITERAL;
+}
+
+// 去除括号和 TypeScript 类型包装
+function unwrapExpression(node: Expression | undefined | null): Expression | undefined {
+  let current = node ?? undefined;
+  while (
+    current &&
+    (current.type === "TSAsExpression" ||
+      current.type === "TSSatisfiesExpression" ||
+      current.type === "TSNonNullExpression" ||
+      current.type === "ParenthesizedExpression")
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
+// 获取对象属性名
+function getPropertyKey(key: Node): string {
+  if (key.type === "Identifier") return key.name;
+  if (key.type === "StringLiteral") return key.value;
+  if (key.type === "NumericLiteral") return String(key.value);
+  return "";
+}
+
+// 判断是否为普通对象
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// 输出带文件名和行号的警告
+function warn(context: ParseContext, node: Node, message: string): void {
+  const line = node.loc ? context.block.startLine + node.loc.start.line - 1 : undefined;
+  context.onWarning({ file: context.file, line, message });
+}
@@ -0,0 +1,70 @@
+// 路径段的排序权重，越具体的段权重越小
+const SEGMENT_WEIGHTS = {
+  static: 0,
+  param: 1,
+  optional: 2,
+  repeatable: 3,
+  catchAll: 4,
+};
+
+export type SegmentKind = keyof typeof SEGMENT_WEIGHTS;
+
+// 路由参数匹配：:id、:lang?、:slug(.*)*、:ids+
+const PARAM_REGEX = /:(\w+)(\([^)]*\))?([?*+])?/g;
+
+/**
+ * 判断路径段的类型
+ * @param segment 路由路径段
+ * @returns 段类型：静态段、参数、可选参数、可重复参数或 catch-all
+ */
+export function getSegmentKind(segment: string): SegmentKind {
+  let kind: SegmentKind = "static";
+
+  for (const [, , pattern, modifier] of segment.matchAll(PARAM_REGEX)) {
+    const paramKind: SegmentKind = pattern === "(.*)" || modifier === "*"
+      ? "catchAll"
+      : modifier === "+" ? "repeatable" : modifier === "?" ? "optional" : "param";
+    if (SEGMENT_WEIGHTS[paramKind] > SEGMENT_WEIGHTS[kind]) kind = paramKind;
+  }
+
+  return kind;
+}
+
+/**
+ * 按具体程度比较两个路由路径：逐段比较，静态段优先，其次是参数、可选参数、可重复参数，catch-all 最后
+ * 类型相同时按字符顺序，前缀相同时短路径在前
+ * @param a 路由路径
+ * @param b 路由路径
+ * @returns 排序结果，负数表示 a 在前
+ */
+export function compareRouteSpecificity(a: string, b: string): number {
+  const segmentsA = splitPath(a);
+  const segmentsB = splitPath(b);
+
+  for (let index = 0; index < Math.min(segmentsA.length, segmentsB.length); index++) {
+    const weightDiff = SEGMENT_WEIGHTS[getSegmentKind(segmentsA[index])] - SEGMENT_WEIGHTS[getSegmentKind(segmentsB[index])];
+    if (weightDiff !== 0) return weightDiff;
+    if (segmentsA[index] !== segmentsB[index]) return segmentsA[index] < segmentsB[index] ? -1 : 1;
+  }
+
+  return segmentsA.length - segmentsB.length;
+}
+
+/**
+ * 生成路由路径的匹配签名：参数名不影响匹配，默认不区分大小写和尾部斜杠
+ * 签名相同的两个路径能匹配完全相同的 URL，路由器无法区分
+ * @param routePath 路由路径
+ * @param sensitive 是否区分大小写
+ * @returns 匹配签名，如 /user/:id 和 /User/:userId 均为 /user/:
+ */
+export function getRouteSignature(routePath: string, sensitive = false): string {
+  const signature = `/${splitPath(routePath)
+    .map(segment => segment.replace(PARAM_REGEX, (_match, _name, pattern = "", modifier = "") => `:${pattern}${modifier}`))
+    .join("/")}`;
+  return sensitive ? signature : signature.toLowerCase();
+}
+
+// 拆分路由路径为路径段
+function splitPath(routePath: string): string[] {
+  return routePath.split("/").filter(Boolean);
+}
@@ -0,0 +1,112 @@
+import type { NavigationGuardReturn, NavigationGuardWithThis, RouteLocationNormalized, RouteLocationNormalizedLoaded, RouteLocationRaw } from "vue-router";
+
+// 多个权限的匹配方式：any 满足其一即可，all 需要全部满足
+export type PermissionMode = "any" | "all";
+
+// 页面中具名导出的路由守卫，只接收 to 和 from
+type PageGuard = (to: RouteLocationNormalized, from: RouteLocationNormalizedLoaded) => NavigationGuardReturn | Promise<NavigationGuardReturn>;
+
+// 权限守卫配置
+export interface PermissionGuardOptions<User = unknown> {
+  /** 获取当前用户，未登录时返回 null 或 undefined，支持异步 */
+  getUser: () => User | null | undefined | Promise<User | null | undefined>;
+  /** 判断用户是否拥有某个权限，支持异步 */
+  hasPermission: (user: User, permission: string, to: RouteLocationNormalized) => boolean | Promise<boolean>;
+  /** 未登录时跳转的路由，会带上原地址作为查询参数 */
+  loginRoute: RouteLocationRaw;
+  /** 权限不足时跳转的路由 */
+  forbiddenRoute: RouteLocationRaw;
+  /** 路由未设置 meta.permissionMode 时的匹配方式，默认为 all */
+  mode?: PermissionMode;
+  /** 保存原地址的查询参数名，默认为 redirect */
+  redirectQuery?: string;
+}
+
+/**
+ * 创建权限守卫：根据路由元信息 requiresAuth 和 permissions 检查登录状态和权限
+ * 元信息会合并父路由的配置，声明了 permissions 的路由同样需要登录
+ * @param options 权限守卫配置
+ * @returns 可传给 router.beforeEach 的导航守卫
+ */
+export function createPermissionGuard<User>(options: PermissionGuardOptions<User>): NavigationGuardWithThis<undefined> {
+  const redirectQuery = options.redirectQuery ?? "redirect";
+
+  return async to => {
+    // 登录页和无权限页始终放行，即使它们继承了 requiresAuth 或 permissions，否则会循环重定向
+    if (isLocationOf(to, options.loginRoute) || isLocationOf(to, options.forbiddenRoute)) return true;
+
+    const permissions = getRoutePermissions(to);
+    if (!to.meta.requiresAuth && permissions.length === 0) return true;
+
+    const user = await options.getUser();
+    if (user === null || user === undefined) {
+      return withQuery(options.loginRoute, { [redirectQuery]: to.fullPath });
+    }
+
+    const mode = (to.meta.permissionMode as PermissionMode | undefined) ?? options.mode ?? "all";
+    return (await checkPermissions(user, permissions, mode, to, options.hasPermission)) ? true : options.forbiddenRoute;
+  };
+}
+
+/**
+ * 创建路由独享守卫：导航时按需加载页面模块并调用其具名导出的守卫，不影响页面懒加载
+ * 生成的路由文件通过它引用页面中的守卫，页面模块的类型声明（如 '*.vue'）不需要包含该导出
+ * @param load 加载页面模块的函数
+ * @param exportName 守卫函数的导出名
+ * @returns 可用作 beforeEnter 的导航守卫
+ */
+export function loadPageGuard(load: () => Promise<object>, exportName: string): NavigationGuardWithThis<undefined> {
+  return (to, from) => load().then(module => (module as Record<string, PageGuard>)[exportName](to, from));
+}
+
+/**
+ * 读取登录后应返回的地址，只接受站内路径，避免跳转到外部站点
+ * @param route 当前路由（登录页）
+ * @param redirectQuery 保存原地址的查询参数名
+ * @param fallback 没有有效地址时返回的路径
+ * @returns 站内路径
+ */
+export function getRedirectPath(route: RouteLocationNormalized, redirectQuery = "redirect", fallback = "/"): string {
+  const value = route.query[redirectQuery];
+  const target = Array.isArray(value) ? value[0] : value;
+  return typeof target === "string" && target.startsWith("/") && !target.startsWith("//") ? target : fallback;
+}
+
+// 读取路由要求的权限，兼容单个字符串
+function getRoutePermissions(to: RouteLocationNormalized): string[] {
+  const permissions = to.meta.permissions;
+  if (typeof permissions === "string") return [permissions];
+  return Array.isArray(permissions) ? permissions.filter((item): item is string => typeof item === "string") : [];
+}
+
+// 按匹配方式依次检查权限，结果确定后不再检查剩余权限
+async function checkPermissions<User>(
+  user: User,
+  permissions: string[],
+  mode: PermissionMode,
+  to: RouteLocationNormalized,
+  hasPermission: PermissionGuardOptions<User>["hasPermission"]
+): Promise<boolean> {
+  if (permissions.length === 0) return true;
+
+  for (const permission of permissions) {
+    const granted = await hasPermission(user, permission, to);
+    if (mode === "any" && granted) return true;
+    if (mode === "all" && !granted) return false;
+  }
+
+  return mode === "all";
+}
+
+// 判断路由是否为跳转目标：按名称或路径比较，忽略查询参数和 hash
+function isLocationOf(to: RouteLocationNormalized, location: RouteLocationRaw): boolean {
+  if (typeof location === "string") return to.path === location.split(/[?#]/)[0];
+  if ("name" in location && location.name !== undefined) return to.name === location.name;
+  return "path" in location && to.path === location.path;
+}
+
+// 为跳转目标添加查询参数，保留目标已有的查询参数
+function withQuery(location: RouteLocationRaw, query: Record<string, string>): RouteLocationRaw {
+  if (typeof location === "string") return { path: location, query };
+  return { ...location, query: { ...("query" in location ? location.query : {}), ...query } } as RouteLocationRaw;
+}
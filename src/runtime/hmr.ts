@@ -0,0 +1,33 @@
+import type { RouteRecordRaw, Router } from "vue-router";
+
+// 移除一组已添加路由的函数
+export type RemoveRoutes = () => void;
+
+/**
+ * 通过 addRoute 将路由添加到路由实例，返回移除这些路由的函数
+ * addRoute 返回的移除函数不依赖路由名称，无名称的布局路由同样可以移除
+ * @param router 路由实例
+ * @param routes 要添加的路由
+ * @returns 移除这些路由的函数
+ */
+export function addRoutes(router: Router, routes: readonly RouteRecordRaw[]): RemoveRoutes {
+  const removers = routes.map(route => router.addRoute(route));
+  return () => removers.forEach(remove => remove());
+}
+
+/**
+ * 在运行中的路由实例上用新路由替换旧路由，并重新匹配当前地址，保留路径、查询参数和 hash
+ * @param router 路由实例
+ * @param removeRoutes 移除旧路由的函数，由 addRoutes 或上一次 replaceRoutes 返回
+ * @param newRoutes 更新后的路由
+ * @returns 移除新路由的函数，供下一次替换使用
+ */
+export function replaceRoutes(router: Router, removeRoutes: RemoveRoutes, newRoutes: readonly RouteRecordRaw[]): RemoveRoutes {
+  removeRoutes();
+  const removeNewRoutes = addRoutes(router, newRoutes);
+
+  // 当前地址不变，需要 force 才会重新匹配路由记录
+  const { path, query, hash } = router.currentRoute.value;
+  router.replace({ path, query, hash, force: true });
+  return removeNewRoutes;
+}
@@ -0,0 +1,5 @@
+// 运行时辅助函数统一导出，在浏览器中使用，不依赖 Node.js 模块
+export { addRoutes, replaceRoutes } from "./hmr";
+export type { RemoveRoutes } from "./hmr";
+export { createPermissionGuard, getRedirectPath, loadPageGuard } from "./guards";
+export type { PermissionGuardOptions, PermissionMode } from "./guards";
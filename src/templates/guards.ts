@@ -7,6 +7,7 @@ import type { InternalAutoRouterOptions } from "../types";
  */
 export function generateGuardsTemplate(options: InternalAutoRouterOptions): string {
   return `import type { Router } from 'vue-router'
+import { createPermissionGuard } from '@wemt/vue3-auto-router/runtime'
 
 /**
  * 路由守卫配置文件
@@ -21,6 +22,35 @@ export function generateGuardsTemplate(options: InternalAutoRouterOptions): stri
 const guardsConfig = {
   enabled: true,
   defaultTitle: "${options.defaultTitle || ""}",
+  // 未登录时跳转的页面，原地址保存在 redirect 查询参数中
+  loginRoute: "/login",
+  // 权限不足时跳转的页面
+  forbiddenRoute: "/403",
+}
+
+// 当前登录用户
+interface CurrentUser {
+  permissions: string[]
+}
+
+/**
+ * 获取当前登录用户，未登录时返回 null
+ * 请替换为项目实际的登录状态逻辑，支持返回 Promise
+ */
+function getUser(): CurrentUser | null {
+  if (localStorage.getItem('token') === null) {
+    return null
+  }
+  return { permissions: [] }
+}
+
+/**
+ * 判断用户是否拥有某个权限，支持返回 Promise
+ * @param user 当前登录用户
+ * @param permission 路由 meta.permissions 中的权限
+ */
+function hasPermission(user: CurrentUser, permission: string): boolean {
+  return user.permissions.includes(permission)
 }
 
 /**
@@ -32,6 +62,14 @@ export function setupRouteGuards(router: Router) {
     return
   }
   
+  // 检查 meta.requiresAuth 和 meta.permissions（meta.permissionMode 为 any 时满足其一即可）
+  router.beforeEach(createPermissionGuard({
+    getUser,
+    hasPermission,
+    loginRoute: guardsConfig.loginRoute,
+    forbiddenRoute: guardsConfig.forbiddenRoute,
+  }))
+  
   router.beforeEach((to, from, next) => {
     // 设置页面标题
     const title = to.meta?.title as string || guardsConfig.defaultTitle
@@ -39,32 +77,6 @@ export function setupRouteGuards(router: Router) {
       document.title = title
     }
     
-    // 这里可以根据需要添加自定义的路由守卫逻辑
-    // 例如：
-    
-    // 1. 检查登录状态
-    // if (to.meta?.requiresAuth) {
-    //   const isAuthenticated = checkAuthStatus()
-    //   if (!isAuthenticated) {
-    //     next('/login')
-    //     return
-    //   }
-    // }
-    
-    // 2. 检查权限
-    // if (to.meta?.permissions) {
-    //   const hasPermission = checkPermissions(to.meta.permissions)
-    //   if (!hasPermission) {
-    //     next('/403')
-    //     return
-    //   }
-    // }
-    
-    // 3. 检查自定义参数
-    // if (to.meta?.params) {
-    //   // 处理自定义参数逻辑
-    // }
-    
     next()
   })
   
@@ -76,35 +88,10 @@ export function setupRouteGuards(router: Router) {
     if (to.meta?.title) {
       console.log(\`Page title set to: \${to.meta.title}\`)
     }
-    
-    // 页面加载完成后的逻辑
-    // trackPageView(to.path, to.meta?.title)
   })
 }
 
 // 导出配置供外部使用
 export { guardsConfig }
-
-// 工具函数示例（可选）
-// function checkAuthStatus(): boolean {
-//   return localStorage.getItem('token') !== null
-// }
-
-// function checkPermissions(requiredPermissions: string[]): boolean {
-//   const userPermissions = getUserPermissions()
-//   return requiredPermissions.every(permission => 
-//     userPermissions.includes(permission)
-//   )
-// }
-
-// function getUserPermissions(): string[] {
-//   // 获取用户权限逻辑
-//   return []
-// }
-
-// function trackPageView(path: string, title?: string): void {
-//   // 页面访问统计逻辑
-//   console.log('Page view:', { path, title })
-// }
 `;
 }
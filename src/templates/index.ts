@@ -1,4 +1,5 @@
 // 模板文件统一导出
 export { generateRoutesTemplate } from "./routes";
 export { generateConfigTemplate } from "./config";
-export { generateGuardsTemplate } from "./guards";
\ No newline at end of file
+export { generateGuardsTemplate } from "./guards";
+export { generateTypedRouterTemplate } from "./typed-router";
@@ -1,28 +1,98 @@
+import { createHash } from "crypto";
 import type { RouteRecordRaw } from "vue-router";
+import type { PageGuardReference, StaticImport } from "../types";
+import { quoteString, rawCode, serializeValue } from "./serialize";
+
+// 运行时辅助函数所在的模块
+const RUNTIME_MODULE = "@wemt/vue3-auto-router/runtime";
 
 /**
  * 生成路由文件内容
+ * 输出不包含时间戳，相同的路由始终生成相同的内容
  * @param routes 路由配置数组
+ * @param imports 非懒加载组件的静态导入
+ * @param format 输出格式，js 格式不包含类型注解（用于虚拟模块）
+ * @param hash 是否在文件头部写入内容哈希
+ * @param hmrRuntime 是否通过运行时辅助函数在路由实例上热替换路由
  * @returns 路由文件的字符串内容
  */
-export function generateRoutesTemplate(routes: RouteRecordRaw[]): string {
-  const routesCode = routes.map(formatRouteCode).join(",\n");
-  const timestamp = new Date().toISOString();
+export function generateRoutesTemplate(
+  routes: RouteRecordRaw[],
+  imports: StaticImport[] = [],
+  format: "ts" | "js" = "ts",
+  hash = false,
+  hmrRuntime = false
+): string {
+  const routesCode = serializeValue(routes.map(toSerializableRoute));
+  const importsCode = imports.map(item => `import ${item.name} from ${quoteString(item.path)}\n`).join("");
+  const typeNames = hmrRuntime ? "RouteRecordRaw, Router" : "RouteRecordRaw";
+  const typeImport = format === "ts" ? `import type { ${typeNames} } from 'vue-router'\n` : "";
+  const runtimeNames = [
+    ...(hmrRuntime ? ["addRoutes"] : []),
+    ...(hasPageGuards(routes) ? ["loadPageGuard"] : []),
+    ...(hmrRuntime ? ["replaceRoutes"] : []),
+  ];
+  const runtimeImport = runtimeNames.length > 0 ? `import { ${runtimeNames.join(", ")} } from ${quoteString(RUNTIME_MODULE)}\n` : "";
+  const typeAnnotation = format === "ts" ? ": RouteRecordRaw[]" : "";
+
+  const code = `export const autoRoutes${typeAnnotation} = ${routesCode}
+
+export default autoRoutes
 
-  return `import type { RouteRecordRaw } from 'vue-router'
+${hmrRuntime ? generateRuntimeHmrCode(format) : generateHmrCode()}`;
+  const header = typeImport + runtimeImport + importsCode;
+  const hashLine = hash ? `// Content hash: ${hashRoutesContent(header + code)}\n` : "";
 
+  return `${header}
 // Auto-generated route configuration by @wemt/vue-auto-router
-// Generated at: ${timestamp} 
+${hashLine}
+${code}`;
+}
 
-export const autoRoutes: RouteRecordRaw[] = [
-${routesCode}
-]
+// 默认的HMR代码：只接受更新，已注册到路由实例的路由不会变化
+function generateHmrCode(): string {
+  return `// HMR支持
+if (import.meta.hot) {
+  import.meta.hot.accept(() => {
+    console.log('🔄 [vue-auto-router] Routes updated')
+  })
+}
+`;
+}
 
-export default autoRoutes
+/**
+ * 生成使用运行时辅助函数的HMR代码
+ * 路由由 handleHotUpdate 通过 addRoute 添加，路由实例和移除函数保存在模块更新前后共享的 import.meta.hot.data 中
+ * 更新时移除旧路由并添加新模块的路由，无名称的布局路由同样可以替换
+ * @param format 输出格式
+ * @returns HMR代码
+ */
+function generateRuntimeHmrCode(format: "ts" | "js"): string {
+  const routerParam = format === "ts" ? "router: Router" : "router";
+  const returnType = format === "ts" ? ": void" : "";
+
+  return `/**
+ * 将自动生成的路由添加到路由实例，开发模式下路由文件更新时热替换这些路由并保留当前位置
+ * 使用此函数时不要再把 autoRoutes 传给 createRouter
+ * @param router Vue Router 实例
+ */
+export function handleHotUpdate(${routerParam})${returnType} {
+  const removeRoutes = addRoutes(router, autoRoutes)
+  if (import.meta.hot) {
+    import.meta.hot.data.router = router
+    import.meta.hot.data.removeRoutes = removeRoutes
+  }
+}
 
 // HMR支持
 if (import.meta.hot) {
-  import.meta.hot.accept(() => {
+  import.meta.hot.accept((mod) => {
+    const data = import.meta.hot?.data
+    if (!mod || !data?.removeRoutes) {
+      import.meta.hot?.invalidate()
+      return
+    }
+    data.removeRoutes = replaceRoutes(data.router, data.removeRoutes, mod.autoRoutes)
     console.log('🔄 [vue-auto-router] Routes updated')
   })
 }
@@ -30,37 +100,57 @@ if (import.meta.hot) {
 }
 
 /**
- * 格式化单个路由代码
- * @param route 路由配置对象
- * @returns 格式化后的路由代码字符串
+ * 计算路由文件内容的哈希，用于校验提交的路由文件是否为最新生成的结果
+ * @param content 不含哈希行的文件内容
+ * @returns 内容哈希
  */
-function formatRouteCode(route: RouteRecordRaw): string {
-  const metaStr = formatMeta(route.meta);
-  
-  return `  {
-    path: '${String(route.path)}',
-    name: '${String(route.name)}',
-    component: ${route.component},
-    meta: ${metaStr}
-  }`;
+function hashRoutesContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex").slice(0, 16);
 }
 
+// 路由属性的输出顺序，未列出的属性排在其后，children 始终在最后
+const ROUTE_KEY_ORDER = ["path", "name", "alias", "redirect", "component", "components", "props", "beforeEnter", "sensitive", "strict", "meta"];
+
+// 以代码字符串保存的路由属性，原样输出
+const ROUTE_CODE_KEYS = ["component", "beforeEnter"];
+
 /**
- * 格式化meta对象
- * @param meta meta对象
- * @returns 格式化后的meta字符串
+ * 将路由转换为可序列化的对象：按固定顺序排列属性，组件和守卫代码原样输出
+ * 引用页面具名导出的守卫通过运行时的 loadPageGuard 加载，ts 和 js 格式都无需为页面模块标注类型
+ * @param route 路由配置对象
+ * @returns 可序列化的路由对象
  */
-function formatMeta(meta: any): string {
-  if (!meta || Object.keys(meta).length === 0) {
-    return '{}';
+function toSerializableRoute(route: RouteRecordRaw): Record<string, unknown> {
+  const record = route as RouteRecordRaw & Record<string, unknown>;
+  const keys = [
+    ...ROUTE_KEY_ORDER,
+    ...Object.keys(record).filter(key => !ROUTE_KEY_ORDER.includes(key) && key !== "children"),
+  ];
+  const result: Record<string, unknown> = {};
+
+  for (const key of keys) {
+    const value = key === "meta" ? record.meta ?? {} : record[key];
+    if (key === "beforeEnter" && isPageGuardReference(value)) {
+      result[key] = rawCode(`loadPageGuard(() => import(${quoteString(value.importPath)}), ${quoteString(value.exportName)})`);
+    } else {
+      result[key] = ROUTE_CODE_KEYS.includes(key) && typeof value === "string" ? rawCode(value) : value;
+    }
+  }
+
+  // 递归处理嵌套子路由
+  if (route.children?.length) {
+    result.children = route.children.map(toSerializableRoute);
   }
 
-  const entries = Object.entries(meta).map(([key, value]) => {
-    const formattedValue = typeof value === 'string' ? `'${value}'` : JSON.stringify(value);
-    return `      ${key}: ${formattedValue}`;
-  });
+  return result;
+}
 
-  return `{
-${entries.join(',\n')}
-    }`;
-}
\ No newline at end of file
+// 判断路由及其子路由中是否有引用页面导出的守卫
+function hasPageGuards(routes: RouteRecordRaw[]): boolean {
+  return routes.some(route => isPageGuardReference(route.beforeEnter) || hasPageGuards(route.children ?? []));
+}
+
+// 判断守卫是否为页面导出的引用
+function isPageGuardReference(value: unknown): value is PageGuardReference {
+  return typeof value === "object" && value !== null && "importPath" in value && "exportName" in value;
+}
@@ -0,0 +1,125 @@
+// 单行输出的最大宽度，与 prettier 默认的 printWidth 保持一致
+const PRINT_WIDTH = 80;
+
+// 缩进单位
+const INDENT = "  ";
+
+// 原样输出的代码片段标记
+const RAW_CODE = Symbol("raw-code");
+
+// 原样输出的代码片段，如组件的动态导入函数
+export interface RawCode {
+  [RAW_CODE]: string;
+}
+
+/**
+ * 标记一段代码在序列化时原样输出
+ * @param code 代码字符串
+ * @returns 原样输出的代码片段
+ */
+export function rawCode(code: string): RawCode {
+  return { [RAW_CODE]: code };
+}
+
+/**
+ * 将值序列化为 JavaScript 代码
+ * 字符串使用单引号并转义，对象键不是合法标识符时加引号，对象中值为 undefined 的属性会被省略，函数按源码输出
+ * 输出格式与 prettier（singleQuote、无分号、无尾随逗号）的格式化结果一致
+ * @param value 要序列化的值
+ * @param depth 值所在的缩进层级
+ * @param column 值在当前行的起始列，用于判断数组能否单行输出
+ * @returns 代码字符串
+ */
+export function serializeValue(value: unknown, depth = 0, column = depth * INDENT.length): string {
+  if (isRawCode(value)) return value[RAW_CODE];
+  if (value === undefined) return "undefined";
+  if (value === null) return "null";
+
+  switch (typeof value) {
+    case "string":
+      return quoteString(value);
+    case "number":
+    case "boolean":
+      return String(value);
+    case "bigint":
+      return `${value}n`;
+    case "function":
+      return String(value);
+    case "symbol":
+      return "undefined";
+  }
+
+  if (value instanceof Date) return quoteString(value.toISOString());
+  if (value instanceof RegExp) return String(value);
+  if (Array.isArray(value)) return serializeArray(value, depth, column);
+  return serializeObject(value as Record<string, unknown>, depth);
+}
+
+/**
+ * 生成字符串字面量，默认使用单引号
+ * 与 prettier 一致，单引号多于双引号时改用双引号以减少转义
+ * @param value 字符串内容
+ * @returns 转义后的字符串字面量
+ */
+export function quoteString(value: string): string {
+  // 借助 JSON 转义反斜杠和控制字符
+  const json = JSON.stringify(value);
+  const singleQuotes = value.split("'").length - 1;
+  const doubleQuotes = value.split('"').length - 1;
+  if (singleQuotes > doubleQuotes) return json;
+
+  // 把双引号字符串转换为单引号字符串
+  const escaped = json
+    .slice(1, -1)
+    .replace(/\\"/g, '"')
+    .replace(/'/g, "\\'");
+  return `'${escaped}'`;
+}
+
+/**
+ * 序列化对象键，合法标识符不加引号
+ * @param key 对象键
+ * @returns 键的代码字符串
+ */
+export function serializeKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quoteString(key);
+}
+
+// 序列化数组：只包含基本类型且能放下时单行输出，否则每项一行
+function serializeArray(items: unknown[], depth: number, column: number): string {
+  if (items.length === 0) return "[]";
+
+  if (items.every(isInlineValue)) {
+    const inline = `[${items.map(item => serializeValue(item)).join(", ")}]`;
+    // 预留行尾逗号的位置
+    if (column + inline.length + 1 <= PRINT_WIDTH) return inline;
+  }
+
+  const itemIndent = INDENT.repeat(depth + 1);
+  const lines = items.map(item => `${itemIndent}${serializeValue(item, depth + 1)}`);
+  return `[\n${lines.join(",\n")}\n${INDENT.repeat(depth)}]`;
+}
+
+// 序列化对象：每个属性一行，空对象输出 {}
+function serializeObject(object: Record<string, unknown>, depth: number): string {
+  const propIndent = INDENT.repeat(depth + 1);
+  const lines = Object.entries(object)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const prefix = `${propIndent}${serializeKey(key)}: `;
+      return `${prefix}${serializeValue(value, depth + 1, prefix.length)}`;
+    });
+
+  if (lines.length === 0) return "{}";
+  return `{\n${lines.join(",\n")}\n${INDENT.repeat(depth)}}`;
+}
+
+// 判断值是否可以在数组中单行输出
+function isInlineValue(value: unknown): boolean {
+  return value === null || (typeof value !== "object" && typeof value !== "function");
+}
+
+// 判断是否为原样输出的代码片段
+function isRawCode(value: unknown): value is RawCode {
+  return typeof value === "object" && value !== null && RAW_CODE in value;
+}
@@ -0,0 +1,118 @@
+import type { RouteRecordRaw } from "vue-router";
+import { quoteString } from "./serialize";
+
+// 路由参数的类型信息
+interface RouteParamInfo {
+  name: string;
+  /** 参数修饰符：? 可选、* 零或多个、+ 一个或多个 */
+  modifier: "" | "?" | "*" | "+";
+}
+
+// 具名路由的类型信息
+interface NamedRouteInfo {
+  name: string;
+  path: string;
+  params: RouteParamInfo[];
+}
+
+/**
+ * 生成路由类型声明文件内容，为 vue-router 扩充 RouteNamedMap
+ * @param routes 路由配置数组
+ * @returns 类型声明文件的字符串内容
+ */
+export function generateTypedRouterTemplate(routes: RouteRecordRaw[]): string {
+  // 同名路由只保留第一个，避免重复声明
+  const seenNames = new Set<string>();
+  const namedRoutes = collectNamedRoutes(routes).filter(route => {
+    if (seenNames.has(route.name)) return false;
+    seenNames.add(route.name);
+    return true;
+  });
+  const entries = namedRoutes.map(route => {
+    const name = quoteString(route.name);
+    return `  ${name}: RouteRecordInfo<${name}, ${quoteString(route.path)}, ${formatParams(route.params, true)}, ${formatParams(route.params, false)}>`;
+  });
+
+  return `// Auto-generated route types by @wemt/vue-auto-router
+// 请勿手动修改，路由变化时会自动重新生成
+
+import type {
+  RouteRecordInfo,
+  ParamValue,
+  ParamValueOneOrMore,
+  ParamValueZeroOrMore,
+  ParamValueZeroOrOne,
+} from 'vue-router'
+
+export interface RouteNamedMap {
+${entries.join(",\n")}
+}
+
+declare module 'vue-router' {
+  interface TypesConfig {
+    RouteNamedMap: RouteNamedMap
+  }
+}
+`;
+}
+
+/**
+ * 展开嵌套路由，收集具名路由的完整路径和参数
+ * @param routes 路由配置数组
+ * @param parentPath 父路由的完整路径
+ * @returns 具名路由信息列表
+ */
+function collectNamedRoutes(routes: RouteRecordRaw[], parentPath = ""): NamedRouteInfo[] {
+  const result: NamedRouteInfo[] = [];
+
+  for (const route of routes) {
+    const fullPath = joinChildPath(parentPath, route.path);
+    if (typeof route.name === "string") {
+      result.push({ name: route.name, path: fullPath, params: parseRouteParams(fullPath) });
+    }
+    if (route.children?.length) {
+      result.push(...collectNamedRoutes(route.children, fullPath));
+    }
+  }
+
+  return result;
+}
+
+// 拼接父子路由路径，绝对路径的子路由保持不变
+function joinChildPath(parentPath: string, childPath: string): string {
+  if (!parentPath || childPath.startsWith("/")) return childPath;
+  if (!childPath) return parentPath;
+  return `${parentPath.replace(/\/$/, "")}/${childPath}`;
+}
+
+// 解析路径中的参数：:id、:lang?、:slug(.*)*
+function parseRouteParams(routePath: string): RouteParamInfo[] {
+  const params: RouteParamInfo[] = [];
+  const paramRegex = /:(\w+)(?:\([^)]*\))?([?*+])?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = paramRegex.exec(routePath)) !== null) {
+    params.push({ name: match[1], modifier: (match[2] || "") as RouteParamInfo["modifier"] });
+  }
+
+  return params;
+}
+
+// 格式化参数类型，isRaw 为 true 时生成 push/resolve 可接受的原始参数类型
+// 可选参数和零或多个参数在两种类型中都可以省略
+function formatParams(params: RouteParamInfo[], isRaw: boolean): string {
+  if (params.length === 0) return "Record<never, never>";
+
+  const fields = params.map(param => {
+    const optional = param.modifier === "?" || param.modifier === "*" ? "?" : "";
+    const valueType = {
+      "": "ParamValue",
+      "?": "ParamValueZeroOrOne",
+      "*": "ParamValueZeroOrMore",
+      "+": "ParamValueOneOrMore",
+    }[param.modifier];
+    return `${param.name}${optional}: ${valueType}<${isRaw}>`;
+  });
+
+  return `{ ${fields.join(", ")} }`;
+}
@@ -1,4 +1,5 @@
 import type { Plugin } from "vite";
+import type { RouteRecordRaw } from "vue-router";
 
 // 路由元信息类型
 export interface RouteMeta {
@@ -6,11 +7,98 @@ export interface RouteMeta {
   hidden?: boolean;
   requiresAuth?: boolean;
   permissions?: string[];
+  /** 多个权限的匹配方式：any 满足其一即可，all 需要全部满足 */
+  permissionMode?: "any" | "all";
   keepAlive?: boolean;
   params?: Record<string, any>;
   [key: string]: any;
 }
 
+// 页面级路由配置（来自页面文件的defineOptions或<route>自定义块）
+export interface PageRouteOptions {
+  /** 覆盖生成的路由路径 */
+  path?: string;
+  /** 覆盖生成的路由名称 */
+  name?: string;
+  /** 路由别名 */
+  alias?: string | string[];
+  /** 路由重定向 */
+  redirect?: string | Record<string, any>;
+  /** 是否将路由参数作为组件props传入 */
+  props?: boolean | Record<string, any>;
+  /** 路由独享守卫，引用页面 <script> 中具名导出的函数名 */
+  beforeEnter?: string;
+  /** 路径匹配是否区分大小写 */
+  sensitive?: boolean;
+  /** 是否禁止匹配尾部斜杠 */
+  strict?: boolean;
+  /** 路由元信息 */
+  meta?: RouteMeta;
+  /** 是否懒加载该页面，覆盖全局lazy配置 */
+  lazy?: boolean;
+}
+
+// 解析页面文件时产生的警告
+export interface ParseWarning {
+  /** 文件路径 */
+  file: string;
+  /** 行号（从1开始） */
+  line?: number;
+  /** 警告信息 */
+  message: string;
+}
+
+// 诊断代码
+export type DiagnosticCode =
+  | "DUPLICATE_PATH"
+  | "DUPLICATE_NAME"
+  | "MISSING_NOT_FOUND"
+  | "UNPARSEABLE_META"
+  | "INVALID_EXTENSION"
+  | "SCAN_DIR_MISSING"
+  | "INVALID_OPTION";
+
+// 生成路由时收集的诊断信息
+export interface Diagnostic {
+  /** 诊断代码 */
+  code: DiagnosticCode;
+  /** 级别：error 在 strict 模式下会使构建失败 */
+  level: "warning" | "error";
+  /** 诊断信息 */
+  message: string;
+  /** 相关文件路径，相对项目根目录 */
+  file?: string;
+  /** 行号（从1开始） */
+  line?: number;
+}
+
+// 路径上下文：项目根目录与解析后的扫描目录，所有路径计算基于同一个根目录
+export interface PathContext {
+  /** 项目根目录（Vite 的 root） */
+  root: string;
+  /** 解析后的扫描目录 */
+  scanDirs: ResolvedScanDir[];
+}
+
+// 开发服务器中的文件变化事件
+export type FileChangeEvent = "add" | "change" | "unlink";
+
+// 路由独享守卫：引用页面模块中具名导出的守卫函数，由路由模板生成按需加载页面模块的代码
+export interface PageGuardReference {
+  /** 页面模块的导入路径 */
+  importPath: string;
+  /** 守卫函数的导出名 */
+  exportName: string;
+}
+
+// 静态导入的组件
+export interface StaticImport {
+  /** 组件标识符 */
+  name: string;
+  /** 导入路径 */
+  path: string;
+}
+
 // 路由命名规则配置
 export interface NamingConfig {
   /** 是否使用kebab-case命名 */
@@ -19,6 +107,8 @@ export interface NamingConfig {
   preservePath?: boolean;
   /** 文件名后缀，如 ['View', 'Page'] */
   filenameSuffixes?: string[];
+  /** 生成的路由名称重复时的处理方式：suffix 追加序号，path 改用文件路径，none 不处理 */
+  duplicateNames?: "suffix" | "path" | "none";
 }
 
 // 首页路由配置
@@ -43,6 +133,56 @@ export interface NotFoundConfig {
   component?: string;
 }
 
+// 数组元信息的合并方式：replace 替换、concat 拼接、union 去重合并
+export type ArrayMergeStrategy = "replace" | "concat" | "union";
+
+// 元信息合并策略
+export interface MetaMergeConfig {
+  /** 对象的合并方式：deep 逐层合并，shallow 只合并第一层，默认为 deep */
+  objects?: "deep" | "shallow";
+  /** 数组的合并方式，可按字段名单独配置，如 { permissions: "union" }，默认为 replace */
+  arrays?: ArrayMergeStrategy | Record<string, ArrayMergeStrategy>;
+}
+
+// 自定义元信息合并函数，globalMeta 中已包含生成的默认标题
+export type MergeMetaFunction = (globalMeta: RouteMeta, dirMeta: RouteMeta, pageMeta: RouteMeta, file: string) => RouteMeta;
+
+// extendRoute 回调的上下文
+export interface ExtendRouteContext {
+  /** 页面文件的绝对路径 */
+  file: string;
+  /** 页面文件相对所属扫描目录的路径 */
+  relativePath: string;
+  /** 页面自身声明的元信息 */
+  meta: RouteMeta;
+}
+
+// 单个路由的扩展回调：可直接修改路由，返回新路由替换，返回 null 或 false 移除该路由
+export type ExtendRouteHook = (
+  route: RouteRecordRaw,
+  context: ExtendRouteContext
+) => RouteRecordRaw | null | false | void | Promise<RouteRecordRaw | null | false | void>;
+
+// 路由列表生成后的回调：可调整顺序、插入或处理整个列表，返回新列表替换
+export type RoutesGeneratedHook = (routes: RouteRecordRaw[]) => RouteRecordRaw[] | void | Promise<RouteRecordRaw[] | void>;
+
+// 扫描目录配置
+export interface ScanDirConfig {
+  /** 扫描的目录，支持 glob 模式匹配多个目录 */
+  dir: string;
+  /** 该目录下路由的路径前缀，默认使用全局 pathPrefix */
+  pathPrefix?: string;
+  /** 该目录的排除模式，默认使用全局 exclude */
+  exclude?: string[];
+  /** 该目录的文件扩展名，默认使用全局 extensions */
+  extensions?: string[];
+  /** 该目录下路由的基础元信息，作为最外层的目录元信息与全局 meta 合并 */
+  meta?: RouteMeta;
+}
+
+// 解析后的扫描目录，dir 为绝对路径
+export type ResolvedScanDir = Required<ScanDirConfig>;
+
 // 输出配置
 export interface OutputConfig {
   /** 路由文件输出路径 */
@@ -51,12 +191,24 @@ export interface OutputConfig {
   config?: string;
   /** 守卫文件输出路径 */
   guards?: string;
+  /** 路由类型声明文件输出路径，设为 false 时不生成 */
+  types?: string | false;
+  /** 是否在路由文件头部写入内容哈希 */
+  hash?: boolean;
+}
+
+// 开发服务器热更新配置
+export interface HmrConfig {
+  /** 路由变化时额外需要失效的模块，相对项目根目录，默认为 ['src/router/index.ts'] */
+  invalidate?: string[];
+  /** 是否在生成的路由文件中导出 handleHotUpdate，在运行中的路由实例上替换路由而不是整页刷新 */
+  runtime?: boolean;
 }
 
 // 插件配置接口
 export interface AutoRouterOptions {
-  /** 扫描的目录 */
-  scanDir?: string;
+  /** 扫描的目录，可传入多个目录并为每个目录单独配置 */
+  scanDir?: string | (string | ScanDirConfig)[];
   /** 文件扩展名 */
   extensions?: string[];
   /** 排除的文件模式 */
@@ -65,8 +217,20 @@ export interface AutoRouterOptions {
   pathPrefix?: string;
   /** 是否启用懒加载 */
   lazy?: boolean;
+  /** 是否通过虚拟模块 virtual:auto-routes 提供路由和配置，而不是写入文件 */
+  virtual?: boolean;
+  /** 严格模式：存在错误级别的诊断时使 vite build 失败 */
+  strict?: boolean;
   /** 路由元信息 */
   meta?: RouteMeta;
+  /** 元信息合并策略 */
+  metaMerge?: MetaMergeConfig;
+  /** 自定义元信息合并函数，设置后替代 metaMerge 合并全局、目录和页面元信息 */
+  mergeMeta?: MergeMetaFunction;
+  /** 扩展每个生成的路由，支持异步 */
+  extendRoute?: ExtendRouteHook;
+  /** 处理生成的完整路由列表，在渲染路由文件之前调用，支持异步 */
+  onRoutesGenerated?: RoutesGeneratedHook;
   /** 路由命名规则 */
   naming?: NamingConfig;
   /** 首页路由配置 */
@@ -77,12 +241,18 @@ export interface AutoRouterOptions {
   notFound?: NotFoundConfig;
   /** 输出配置 */
   output?: OutputConfig;
+  /** 热更新配置 */
+  hmr?: HmrConfig;
 }
 
 // 内部使用的完整配置类型
-export type InternalAutoRouterOptions = Required<AutoRouterOptions> & {
+export type InternalAutoRouterOptions = Required<Omit<AutoRouterOptions, "mergeMeta" | "extendRoute" | "onRoutesGenerated">> & {
+  mergeMeta?: MergeMetaFunction;
+  extendRoute?: ExtendRouteHook;
+  onRoutesGenerated?: RoutesGeneratedHook;
   output: Required<OutputConfig>;
   notFound: Required<NotFoundConfig>;
+  hmr: Required<HmrConfig>;
 }
 
 // 插件函数类型
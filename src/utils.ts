@@ -1,12 +1,29 @@
-import { glob } from "glob";
+import { glob, globSync, hasMagic } from "glob";
+import { minimatch } from "minimatch";
 import path from "path";
 import fs from "fs";
-import type { AutoRouterOptions, InternalAutoRouterOptions, RouteMeta } from "./types";
+import type { ArrayMergeStrategy, AutoRouterOptions, Diagnostic, DiagnosticCode, InternalAutoRouterOptions, MetaMergeConfig, PageRouteOptions, ParseWarning, PathContext, ResolvedScanDir, RouteMeta, ScanDirConfig } from "./types";
+import { parseMetaFileSource, parseRouteOptionsFromSource } from "./parser";
+import { quoteString } from "./templates/serialize";
 
 // 插件常量
 export const PLUGIN_NAME = "vue-auto-router";
 export const SUPPORTED_EXTENSIONS = [".vue", ".ts", ".js"];
 
+// 路由组布局文件名和元信息文件名
+export const GROUP_LAYOUT_NAME = "_layout";
+export const GROUP_META_FILES = ["_group.ts", "_group.js"];
+
+// 目录元信息文件名，按顺序查找第一个存在的文件
+export const DIRECTORY_META_FILES = ["_meta.json", "_meta.ts", "_meta.js"];
+
+// 未配置或找不到 404 组件时，在扫描目录根部按顺序查找的页面文件名
+export const NOT_FOUND_FILE_NAMES = ["404", "NotFound", "[...all]"];
+
+// 虚拟模块ID
+export const VIRTUAL_ROUTES_ID = "virtual:auto-routes";
+export const VIRTUAL_CONFIG_ID = "virtual:auto-routes/config";
+
 // 跨平台路径标准化函数
 export function normalizePath(filePath: string): string {
   return filePath.replace(/\\/g, "/");
@@ -24,11 +41,18 @@ export const defaultOptions: InternalAutoRouterOptions = {
   exclude: ["**/components/**", "**/__tests__/**", "**/node_modules/**", "**/.git/**", "**/dist/**", "**/build/**"],
   pathPrefix: "",
   lazy: true,
+  virtual: false,
+  strict: false,
   meta: {},
+  metaMerge: {
+    objects: "deep",
+    arrays: "replace",
+  },
   naming: {
     kebabCase: false,
     preservePath: false,
     filenameSuffixes: [],
+    duplicateNames: "suffix",
   },
   homeRoute: {
     path: "/",
@@ -46,47 +70,68 @@ export const defaultOptions: InternalAutoRouterOptions = {
     routes: "src/router/auto/routes.ts",
     config: "src/router/auto/config.ts",
     guards: "src/router/guards.ts",
+    types: "src/router/auto/typed-router.d.ts",
+    hash: false,
+  },
+  hmr: {
+    invalidate: ["src/router/index.ts"],
+    runtime: false,
   },
 };
 
-// 配置验证函数
+// 配置验证函数，返回错误信息列表
 export function validateOptions(options: AutoRouterOptions): string[] {
-  const errors: string[] = [];
+  return collectOptionDiagnostics(options).map(diagnostic => diagnostic.message);
+}
+
+// 检查配置，返回带诊断代码的错误
+export function collectOptionDiagnostics(options: AutoRouterOptions): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const report = (code: DiagnosticCode, message: string) => diagnostics.push({ code, level: "error", message });
   
-  if (options.scanDir && !options.scanDir.trim()) {
-    errors.push("scanDir cannot be empty");
+  if (Array.isArray(options.scanDir) && options.scanDir.length === 0) {
+    report("SCAN_DIR_MISSING", "scanDir cannot be empty array");
+  }
+
+  const scanDirEntries = options.scanDir === undefined ? [] : toScanDirConfigs(options.scanDir);
+  if (scanDirEntries.some(entry => typeof entry?.dir !== "string" || !entry.dir.trim())) {
+    report("SCAN_DIR_MISSING", "scanDir cannot be empty");
   }
   
   if (options.extensions && options.extensions.length === 0) {
-    errors.push("extensions cannot be empty array");
+    report("INVALID_EXTENSION", "extensions cannot be empty array");
   }
   
-  if (options.extensions) {
-    const invalidExts = options.extensions.filter(ext => !ext.startsWith('.'));
-    if (invalidExts.length > 0) {
-      errors.push(`Invalid extensions: ${invalidExts.join(', ')}. Extensions must start with '.'`);
-    }
+  const extensions = [options.extensions, ...scanDirEntries.map(entry => entry?.extensions)].flatMap(list => list || []);
+  const invalidExts = extensions.filter(ext => !ext.startsWith('.'));
+  if (invalidExts.length > 0) {
+    report("INVALID_EXTENSION", `Invalid extensions: ${invalidExts.join(', ')}. Extensions must start with '.'`);
+  }
+  
+  const duplicateNames = options.naming?.duplicateNames;
+  if (duplicateNames !== undefined && !["suffix", "path", "none"].includes(duplicateNames)) {
+    report("INVALID_OPTION", `Invalid naming.duplicateNames: ${duplicateNames}. Expected suffix, path or none`);
   }
   
   if (options.homeRoute?.fileNames) {
     if (!Array.isArray(options.homeRoute.fileNames)) {
-      errors.push("homeRoute.fileNames must be an array");
+      report("INVALID_OPTION", "homeRoute.fileNames must be an array");
     } else if (options.homeRoute.fileNames.length === 0) {
-      errors.push("homeRoute.fileNames cannot be empty");
+      report("INVALID_OPTION", "homeRoute.fileNames cannot be empty");
     } else {
       const invalidFiles = options.homeRoute.fileNames.filter((file: string) => 
         typeof file !== 'string' || file.trim() === ''
       );
       if (invalidFiles.length > 0) {
-        errors.push("homeRoute.fileNames must contain non-empty strings");
+        report("INVALID_OPTION", "homeRoute.fileNames must contain non-empty strings");
       }
     }
   }
   
-  return errors;
+  return diagnostics;
 }
 
-// 合并配置
+// 合并配置，配置错误通过 console.warn 输出
 export function mergeOptions(options?: AutoRouterOptions): InternalAutoRouterOptions {
   if (!options) return defaultOptions;
 
@@ -96,6 +141,13 @@ export function mergeOptions(options?: AutoRouterOptions): InternalAutoRouterOpt
     console.warn(`[${PLUGIN_NAME}] Configuration warnings:`, errors);
   }
 
+  return mergeDefaultOptions(options);
+}
+
+// 将用户配置与默认配置合并，不做验证，插件自行收集配置诊断并通过 Vite 日志输出
+export function mergeDefaultOptions(options?: AutoRouterOptions): InternalAutoRouterOptions {
+  if (!options) return defaultOptions;
+
   return {
     ...defaultOptions,
     ...options,
@@ -107,28 +159,138 @@ export function mergeOptions(options?: AutoRouterOptions): InternalAutoRouterOpt
     },
     notFound: { ...defaultOptions.notFound, ...options.notFound },
     output: { ...defaultOptions.output, ...options.output },
+    hmr: { ...defaultOptions.hmr, ...options.hmr },
     meta: { ...defaultOptions.meta, ...options.meta },
+    metaMerge: { ...defaultOptions.metaMerge, ...options.metaMerge },
   };
 }
 
-// 扫描文件
-export async function scanFiles(options: InternalAutoRouterOptions, root: string): Promise<string[]> {
-  const scanPath = path.resolve(root, options.scanDir);
-  const pattern = normalizePath(path.join(scanPath, "**/*.{vue,ts,js}"));
+// 将 scanDir 配置统一为目录配置数组
+function toScanDirConfigs(scanDir: AutoRouterOptions["scanDir"]): ScanDirConfig[] {
+  const entries = Array.isArray(scanDir) ? scanDir : [scanDir];
+  return entries.map(entry => (typeof entry === "string" ? { dir: entry } : entry) as ScanDirConfig);
+}
+
+// 解析扫描目录：补全目录级配置，glob 模式展开为实际存在的目录
+export function resolveScanDirs(options: InternalAutoRouterOptions, root: string): ResolvedScanDir[] {
+  return toScanDirConfigs(options.scanDir).flatMap(entry => {
+    const config = {
+      pathPrefix: entry.pathPrefix ?? options.pathPrefix,
+      exclude: entry.exclude ?? options.exclude,
+      extensions: entry.extensions ?? options.extensions,
+      meta: entry.meta ?? {},
+    };
+
+    const pattern = normalizePath(entry.dir);
+    const dirs = hasMagic(pattern)
+      ? globSync(pattern, { cwd: root, absolute: true })
+          .filter(dir => fs.statSync(dir).isDirectory())
+          .sort()
+      : [path.resolve(root, pattern)];
+
+    return dirs.map(dir => ({ ...config, dir: normalizePath(dir) }));
+  });
+}
 
-  const files = await glob(pattern, {
-    ignore: options.exclude,
-    absolute: true,
+// 获取需要监听的扫描目录：glob 模式监听其第一个通配段之前的基础目录，以便发现新增的匹配目录
+export function getScanDirWatchPaths(options: InternalAutoRouterOptions, root: string): string[] {
+  const watchPaths = toScanDirConfigs(options.scanDir).map(entry => {
+    const segments = normalizePath(entry.dir).split("/");
+    const magicIndex = segments.findIndex(segment => hasMagic(segment));
+    const base = magicIndex === -1 ? segments : segments.slice(0, magicIndex);
+    return normalizePath(path.resolve(root, base.join("/") || "."));
   });
+  return [...new Set(watchPaths)];
+}
+
+// 判断目录是否匹配某个 glob 模式的扫描目录，新增或删除这样的目录时需要重新解析扫描目录
+export function matchesScanDirPattern(dir: string, options: InternalAutoRouterOptions, root: string): boolean {
+  const relativeDir = normalizePath(path.relative(root, path.resolve(root, dir)));
+  return toScanDirConfigs(options.scanDir).some(entry => {
+    const pattern = normalizePath(entry.dir).replace(/^\.\//, "");
+    return hasMagic(pattern) && minimatch(relativeDir, pattern);
+  });
+}
+
+// 判断文件是否位于目录内
+function isInsideDir(filePath: string, dir: string): boolean {
+  const relativePath = normalizePath(path.relative(dir, filePath));
+  return relativePath !== "" && !relativePath.startsWith("../") && !path.isAbsolute(relativePath);
+}
+
+// 从已解析的目录中选出文件所属的扫描目录，目录嵌套时取最深的一个
+function pickScanDir(filePath: string, scanDirs: ResolvedScanDir[]): ResolvedScanDir | undefined {
+  return scanDirs
+    .filter(scanDir => isInsideDir(filePath, scanDir.dir))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+}
+
+/**
+ * 创建路径上下文：以项目根目录解析扫描目录，所有路径计算共用同一个上下文
+ * 插件在 configResolved 中使用 Vite 的 root 创建；单独调用工具函数时默认使用当前工作目录
+ * @param options 插件配置
+ * @param root 项目根目录
+ * @returns 路径上下文
+ */
+export function createPathContext(options: InternalAutoRouterOptions, root: string = process.cwd()): PathContext {
+  const resolvedRoot = path.resolve(root);
+  return { root: resolvedRoot, scanDirs: resolveScanDirs(options, resolvedRoot) };
+}
+
+// 查找文件所属的扫描目录
+export function findScanDir(filePath: string, context: PathContext): ResolvedScanDir | undefined {
+  return pickScanDir(path.resolve(context.root, filePath), context.scanDirs);
+}
+
+// 获取文件相对所属扫描目录的路径，找不到时相对第一个扫描目录
+export function getScanDirRelativePath(filePath: string, options: InternalAutoRouterOptions, context: PathContext = createPathContext(options)): string {
+  const scanDir = findScanDir(filePath, context);
+  const scanDirPath = scanDir ? scanDir.dir : path.resolve(context.root, toScanDirConfigs(options.scanDir)[0].dir);
+  return normalizePath(path.relative(scanDirPath, path.resolve(context.root, filePath)));
+}
+
+// 判断文件是否被扫描目录排除：exclude 中的 glob 分别相对扫描目录和项目根目录匹配
+// 与 glob 的默认行为一致，隐藏文件和目录始终排除
+export function isExcludedFile(filePath: string, scanDir: ResolvedScanDir, root: string): boolean {
+  const relativePath = normalizePath(path.relative(scanDir.dir, filePath));
+  if (relativePath.split("/").some(segment => segment.startsWith("."))) return true;
 
-  return files.filter(file => options.extensions.includes(path.extname(file)));
+  const candidates = [relativePath, normalizePath(path.relative(root, filePath))];
+  return scanDir.exclude.some(pattern => candidates.some(candidate => minimatch(candidate, pattern, { dot: true })));
+}
+
+// 匹配路由相关文件，返回文件所属的扫描目录：扫描目录嵌套时归属最深的目录，
+// 文件未被排除，且扩展名在该目录的 extensions 中（路由组和目录元信息文件除外）
+// scanFiles 与开发服务器的文件监听共用该规则，保证开发与构建的结果一致
+export function matchRouteFile(filePath: string, context: PathContext): ResolvedScanDir | undefined {
+  const absolutePath = path.resolve(context.root, filePath);
+  const scanDir = pickScanDir(absolutePath, context.scanDirs);
+  if (!scanDir || isExcludedFile(absolutePath, scanDir, context.root)) return undefined;
+
+  const isMetaFile = isGroupMetaFile(absolutePath) || isDirectoryMetaFile(absolutePath);
+  return isMetaFile || scanDir.extensions.includes(path.extname(absolutePath)) ? scanDir : undefined;
+}
+
+// 扫描目录的 glob 忽略模式：排除模式和隐藏文件、隐藏目录，被忽略的目录不会被遍历
+// 只用于减少遍历，文件是否属于路由仍由 matchRouteFile 决定
+export function getScanIgnorePatterns(scanDir: ResolvedScanDir): string[] {
+  return [...scanDir.exclude, "**/.*", "**/.*/**"];
+}
+
+// 扫描文件
+export async function scanFiles(context: PathContext): Promise<string[]> {
+  const results = await Promise.all(context.scanDirs.map(scanDir =>
+    glob("**/*", { cwd: scanDir.dir, absolute: true, nodir: true, dot: true, ignore: getScanIgnorePatterns(scanDir) })
+  ));
+
+  // 嵌套的扫描目录会重复扫描同一文件，去重后按路径排序，保证生成结果与文件系统的遍历顺序无关
+  const files = new Set(results.flat().map(normalizePath));
+  return [...files].filter(file => matchRouteFile(file, context)).sort();
 }
 
 // 统一的首页文件识别规则
-export function isHomePageFile(filePath: string, options: InternalAutoRouterOptions): boolean {
-  const normalizedPath = normalizePath(filePath);
-  const scanDirPath = normalizePath(path.resolve(process.cwd(), options.scanDir));
-  const relativePath = path.relative(scanDirPath, normalizedPath);
+export function isHomePageFile(filePath: string, options: InternalAutoRouterOptions, context?: PathContext): boolean {
+  const relativePath = getScanDirRelativePath(filePath, options, context);
   
   // 直接使用配置的首页文件名列表（已在defaultOptions中设置了默认值）
   const homeFileNames = options.homeRoute.fileNames!; 
@@ -141,22 +303,74 @@ export function isHomePageFile(filePath: string, options: InternalAutoRouterOpti
 }
 
 // 路径处理工具函数
-export function generateRoutePath(filePath: string, options: InternalAutoRouterOptions): string {
-  const scanDirPath = path.resolve(process.cwd(), options.scanDir);
-  const relativePath = path.relative(scanDirPath, filePath);
-  const normalizedPath = normalizePath(relativePath);
+export function generateRoutePath(filePath: string, options: InternalAutoRouterOptions, context?: PathContext): string {
+  const normalizedPath = getScanDirRelativePath(filePath, options, context);
   
   const cleanPath = normalizedPath
-    .replace(/\.(vue|ts|js)$/, "") // 移除文件扩展名
+    .replace(/\.[^./]+$/, "") // 移除文件扩展名
     .replace(/^\/+/, ""); // 移除开头的斜杠
 
   // 不再在这里处理 index 文件，由生成器根据配置处理
-  const pathSegments = cleanPath.split("/").filter(Boolean);
+  // 路由组目录 (group) 不参与路由路径
+  const pathSegments = cleanPath.split("/").filter(segment => segment && !isRouteGroupSegment(segment));
   return pathSegments.map(segment => processPathSegment(segment, options.naming)).join("/");
 }
 
+// 判断路径段是否为路由组目录，如 (auth)
+export function isRouteGroupSegment(segment: string): boolean {
+  return /^\([^()/]+\)$/.test(segment);
+}
+
+// 判断是否为路由组布局文件，如 (auth)/_layout.vue
+export function isGroupLayoutFile(filePath: string, options: InternalAutoRouterOptions, context?: PathContext): boolean {
+  const segments = getScanDirRelativePath(filePath, options, context).split("/");
+  return segments.length > 1
+    && path.parse(segments[segments.length - 1]).name === GROUP_LAYOUT_NAME
+    && isRouteGroupSegment(segments[segments.length - 2]);
+}
+
+// 判断是否为路由组元信息文件，如 (auth)/_group.ts
+export function isGroupMetaFile(filePath: string): boolean {
+  return GROUP_META_FILES.includes(path.basename(filePath))
+    && isRouteGroupSegment(path.basename(path.dirname(filePath)));
+}
+
+// 判断是否为目录元信息文件，如 admin/_meta.json
+export function isDirectoryMetaFile(filePath: string): boolean {
+  return DIRECTORY_META_FILES.includes(path.basename(filePath));
+}
+
+// 动态路由段匹配：[[lang]]、[...slug]、[id]
+const DYNAMIC_SEGMENT_REGEX = /\[\[(?:\.\.\.)?(\w+)\]\]|\[\.\.\.(\w+)\]|\[(\w+)\]/g;
+
+// 转换动态路由段：[id] → :id，[...slug] → :slug(.*)*，[[lang]] → :lang?
+export function processDynamicSegment(segment: string): string {
+  return segment.replace(DYNAMIC_SEGMENT_REGEX, (match, optional, catchAll, param) => {
+    if (catchAll || (optional && match.startsWith("[[..."))) {
+      return `:${catchAll || optional}(.*)*`;
+    }
+    if (optional) return `:${optional}?`;
+    return `:${param}`;
+  });
+}
+
+// 判断路径段是否包含动态参数
+export function isDynamicSegment(segment: string): boolean {
+  return /\[\w+\]|\[\.\.\.\w+\]|\[\[(?:\.\.\.)?\w+\]\]/.test(segment);
+}
+
+// 去除路由路径段中的参数语法：:id → id，:slug(.*)* → slug，:lang? → lang
+function stripParamSyntax(segment: string): string {
+  return segment.replace(/:(\w+)(?:\([^)]*\))?[?*+]?/g, "$1");
+}
+
 // 处理路径段
 function processPathSegment(segment: string, naming: InternalAutoRouterOptions["naming"]): string {
+  // 动态路由段不做后缀移除和 kebab-case 转换，保持参数名不变
+  if (isDynamicSegment(segment)) {
+    return processDynamicSegment(segment);
+  }
+
   let processed = segment;
 
   // 移除配置的文件名后缀
@@ -180,104 +394,160 @@ function toKebabCase(str: string): string {
     .replace(/^-/, "");
 }
 
+// 根据路由路径生成路由名称
+export function routePathToName(routePath: string): string {
+  return routePath
+    .split("/")
+    .filter(Boolean)
+    .map(stripParamSyntax)
+    .join("-");
+}
+
+// 标准化路径前缀：admin/ → /admin，/ → ''
+export function normalizePathPrefix(prefix: string): string {
+  const trimmed = normalizePath(prefix || "").trim().replace(/^\/+|\/+$/g, "");
+  return trimmed ? `/${trimmed}` : "";
+}
+
+// 为路由路径添加前缀
+export function joinRoutePath(prefix: string, routePath: string): string {
+  const normalizedPrefix = normalizePathPrefix(prefix);
+  if (!normalizedPrefix) return routePath;
+
+  const trimmedPath = routePath.replace(/^\/+/, "");
+  return trimmedPath ? `${normalizedPrefix}/${trimmedPath}` : normalizedPrefix;
+}
+
+// 为路由名称添加前缀：/admin + user → admin-user
+export function prefixRouteName(prefix: string, name: string): string {
+  const prefixName = routePathToName(normalizePathPrefix(prefix));
+  return prefixName ? `${prefixName}-${name}` : name;
+}
+
 // 生成路由名称
-export function generateRouteName(filePath: string, options: InternalAutoRouterOptions): string {
-  const routePath = generateRoutePath(filePath, options);
-  return routePath.replace(/\//g, "-");
+export function generateRouteName(filePath: string, options: InternalAutoRouterOptions, context?: PathContext): string {
+  const routePath = generateRoutePath(filePath, options, context);
+  return routePathToName(routePath);
 }
 
 // 生成页面标题
-export function generatePageTitle(filePath: string, options: InternalAutoRouterOptions): string {
-  const routePath = generateRoutePath(filePath, options);
+export function generatePageTitle(filePath: string, options: InternalAutoRouterOptions, context?: PathContext): string {
+  const routePath = generateRoutePath(filePath, options, context);
   return routePath
     .split("/")
+    .map(stripParamSyntax)
     .map(segment => segment.charAt(0).toUpperCase() + segment.slice(1))
     .join(" ");
 }
 
-// 生成导入语句
-export function generateImportStatement(filePath: string, options: InternalAutoRouterOptions): string {
-  const routerDir = path.dirname(options.output.routes);
+// 生成组件导入路径（相对路由文件所在目录）
+export function generateImportPath(filePath: string, options: InternalAutoRouterOptions, context: PathContext = createPathContext(options)): string {
+  // 虚拟模块没有实际位置：项目内文件使用相对根目录的绝对路径，项目外文件使用文件系统路径
+  if (options.virtual) {
+    const relativeToRoot = normalizePath(path.relative(context.root, filePath));
+    return relativeToRoot.startsWith("../") ? normalizePath(filePath) : `/${relativeToRoot}`;
+  }
+
+  const routerDir = path.resolve(context.root, path.dirname(options.output.routes));
   const relativePath = path.relative(routerDir, filePath);
-  const normalizedPath = normalizePath(relativePath);
-  return `() => import('${normalizedPath}')`;
+  return normalizePath(relativePath);
 }
 
-// 解析Vue文件中的defineOptions
-export function parseVueFileRouteMeta(filePath: string): RouteMeta | null {
-  try {
-    const content = fs.readFileSync(filePath, "utf-8");
-    
-    // 改进的正则表达式，更好地处理嵌套结构
-    const defineOptionsRegex = /defineOptions\s*\(\s*\{([\s\S]*?)\}\s*\)/;
-    const match = content.match(defineOptionsRegex);
+// 生成导入语句
+export function generateImportStatement(filePath: string, options: InternalAutoRouterOptions, context?: PathContext): string {
+  return `() => import(${quoteString(generateImportPath(filePath, options, context))})`;
+}
 
-    if (!match) return null;
+// 生成静态导入使用的组件标识符，如 user/[id].vue → UserIdPage
+export function generateComponentIdentifier(filePath: string, options: InternalAutoRouterOptions, context?: PathContext): string {
+  const relativePath = getScanDirRelativePath(filePath, options, context).replace(/\.[^./]+$/, "");
+  const identifier = relativePath
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
 
-    // 提取meta对象
-    const optionsStr = match[1];
-    const metaMatch = optionsStr.match(/meta\s*:\s*(\{[\s\S]*?\})(?=\s*[,}]|$)/);
-    
-    if (!metaMatch) return null;
+  return /^[0-9]/.test(identifier) ? `_${identifier}Page` : `${identifier}Page`;
+}
 
-    const metaStr = metaMatch[1];
-    return parseRouteMetaObject(metaStr);
-  } catch (error) {
-    console.warn(`Failed to parse meta in ${filePath}:`, error);
-    return null;
+// 按合并策略合并元信息，source 覆盖 target
+export function mergeRouteMeta(target: RouteMeta, source: RouteMeta, config: MetaMergeConfig = {}): RouteMeta {
+  const result: RouteMeta = { ...target };
+
+  for (const [key, value] of Object.entries(source)) {
+    const existing = result[key];
+    if (Array.isArray(existing) && Array.isArray(value)) {
+      result[key] = mergeMetaArrays(existing, value, getArrayMergeStrategy(key, config));
+    } else if (config.objects !== "shallow" && isPlainObject(existing) && isPlainObject(value)) {
+      result[key] = mergeRouteMeta(existing, value, config);
+    } else {
+      result[key] = value;
+    }
   }
-}
 
-// 解析routeMeta对象字符串
-function parseRouteMetaObject(objStr: string): RouteMeta {
-  const cleanStr = objStr
-    .replace(/\/\*[\s\S]*?\*\//g, "") // 移除块注释
-    .replace(/\/\/.*$/gm, "") // 移除行注释
-    .replace(/\s+/g, " ") // 压缩空白
-    .trim();
+  return result;
+}
 
-  const result: RouteMeta = {};
+// 获取字段的数组合并方式
+function getArrayMergeStrategy(key: string, config: MetaMergeConfig): ArrayMergeStrategy {
+  if (typeof config.arrays === "string") return config.arrays;
+  return config.arrays?.[key] ?? "replace";
+}
 
-  // 解析基本属性
-  const patterns = {
-    title: /title\s*:\s*['"`]([^'"`]*?)['"`]/,
-    hidden: /hidden\s*:\s*(true|false)/,
-    requiresAuth: /requiresAuth\s*:\s*(true|false)/,
-    keepAlive: /keepAlive\s*:\s*(true|false)/,
-  };
+// 合并数组元信息，union 按值去重
+function mergeMetaArrays(target: unknown[], source: unknown[], strategy: ArrayMergeStrategy): unknown[] {
+  if (strategy === "replace") return source;
+  if (strategy === "concat") return [...target, ...source];
 
-  Object.entries(patterns).forEach(([key, pattern]) => {
-    const match = cleanStr.match(pattern);
-    if (match) {
-      const value = match[1];
-      if (key === "title") {
-        result[key] = value;
-      } else {
-        result[key] = value === "true";
-      }
-    }
+  const seen = new Set<string>();
+  return [...target, ...source].filter(item => {
+    const key = JSON.stringify(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
   });
+}
 
-  if (cleanStr.includes("params")) {
-    // 增强 params 解析
-    const paramsMatch = cleanStr.match(/params\s*:\s*(\{[\s\S]*?\})/);
-    if (paramsMatch) {
-      try {
-        const paramsStr = paramsMatch[1];
-        // 尝试解析 params 对象
-        const paramsObj = new Function('return ' + paramsStr)();
-        if (typeof paramsObj === 'object' && paramsObj !== null) {
-          result.params = paramsObj;
-        } else {
-          result.params = {};
-        }
-      } catch {
-        result.params = {};
-      }
-    } else {
-      result.params = {};
-    }
+// 判断是否为普通对象
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// 解析Vue文件中的defineOptions
+export function parseVueFileRouteMeta(filePath: string): RouteMeta | null {
+  return parseVueFileRouteOptions(filePath)?.meta ?? null;
+}
+
+// 输出解析警告
+function warnParseIssue(warning: ParseWarning): void {
+  const location = warning.line !== undefined ? `${warning.file}:${warning.line}` : warning.file;
+  console.warn(`[${PLUGIN_NAME}] ${location} ${warning.message}`);
+}
+
+// 解析页面文件中与路由相关的配置（defineOptions/definePage/export default）
+export function parseVueFileRouteOptions(
+  filePath: string,
+  onWarning: (warning: ParseWarning) => void = warnParseIssue
+): PageRouteOptions | null {
+  try {
+    const content = fs.readFileSync(filePath, "utf-8");
+    return parseRouteOptionsFromSource(content, filePath, onWarning);
+  } catch (error) {
+    onWarning({ file: filePath, message: `Failed to parse meta: ${error instanceof Error ? error.message : error}` });
+    return null;
   }
+}
 
-  return result;
+// 解析目录元信息文件（_meta.json/_meta.ts/_meta.js）
+export function parseDirectoryMetaFile(
+  filePath: string,
+  onWarning: (warning: ParseWarning) => void = warnParseIssue
+): RouteMeta | null {
+  try {
+    const content = fs.readFileSync(filePath, "utf-8");
+    return parseMetaFileSource(content, filePath, onWarning);
+  } catch (error) {
+    onWarning({ file: filePath, message: `Failed to parse meta: ${error instanceof Error ? error.message : error}` });
+    return null;
+  }
 }
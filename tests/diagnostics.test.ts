@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { DiagnosticCollector, formatDiagnostic, getDiagnosticErrors } from '../src/diagnostics'
+import { collectOptionDiagnostics } from '../src/utils'
+
+describe('diagnostics.ts', () => {
+  describe('DiagnosticCollector', () => {
+    it('should collect warnings and errors and drop duplicates', () => {
+      const collector = new DiagnosticCollector()
+
+      collector.warn('UNPARSEABLE_META', 'Unknown route option "foo"', { file: '/views/A.vue', line: 2 })
+      collector.warn('UNPARSEABLE_META', 'Unknown route option "foo"', { file: '/views/A.vue', line: 2 })
+      collector.error('SCAN_DIR_MISSING', 'Scan directory "src/pages" does not exist')
+
+      expect(collector.getAll()).toEqual([
+        { code: 'UNPARSEABLE_META', level: 'warning', message: 'Unknown route option "foo"', file: '/views/A.vue', line: 2 },
+        { code: 'SCAN_DIR_MISSING', level: 'error', message: 'Scan directory "src/pages" does not exist' }
+      ])
+      expect(getDiagnosticErrors(collector.getAll())).toHaveLength(1)
+
+      collector.clear()
+      expect(collector.getAll()).toEqual([])
+    })
+  })
+
+  describe('formatDiagnostic', () => {
+    it('should prefix the code and location', () => {
+      expect(formatDiagnostic({ code: 'DUPLICATE_NAME', level: 'error', message: 'Route name "info" is already used', file: 'src/views/Help.vue' }))
+        .toBe('[DUPLICATE_NAME] src/views/Help.vue: Route name "info" is already used')
+      expect(formatDiagnostic({ code: 'UNPARSEABLE_META', level: 'warning', message: 'Bad meta', file: 'src/views/A.vue', line: 3 }))
+        .toBe('[UNPARSEABLE_META] src/views/A.vue:3: Bad meta')
+      expect(formatDiagnostic({ code: 'MISSING_NOT_FOUND', level: 'error', message: 'Missing' })).toBe('[MISSING_NOT_FOUND] Missing')
+    })
+  })
+
+  describe('collectOptionDiagnostics', () => {
+    it('should assign codes to configuration errors', () => {
+      const diagnostics = collectOptionDiagnostics({ scanDir: [], extensions: ['vue'], homeRoute: { fileNames: [] } })
+
+      expect(diagnostics.map(diagnostic => diagnostic.code)).toEqual(['SCAN_DIR_MISSING', 'INVALID_EXTENSION', 'INVALID_OPTION'])
+      expect(diagnostics.every(diagnostic => diagnostic.level === 'error')).toBe(true)
+    })
+  })
+})
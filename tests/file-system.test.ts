@@ -0,0 +1,974 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import ts from 'typescript'
+import { fileURLToPath } from 'url'
+import { RouteGenerator } from '../src/generator'
+import { vueAutoRouter } from '../src/index'
+import { createPathContext, getScanIgnorePatterns, mergeOptions } from '../src/utils'
+import { glob } from 'glob'
+import type { AutoRouterOptions } from '../src/types'
+import type { RouteRecordRaw } from 'vue-router'
+import { addRoutes, replaceRoutes } from '../src/runtime'
+import { createMemoryHistory, createRouter } from 'vue-router'
+
+describe('RouteGenerator with real files', () => {
+  let root: string
+
+  const writePage = (relativePath: string, content = '<template><div /></template>') => {
+    const filePath = path.join(root, 'src/views', relativePath)
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    fs.writeFileSync(filePath, content)
+  }
+
+  const generate = (options: AutoRouterOptions = {}) => {
+    const generator = new RouteGenerator(mergeOptions({ notFound: { enabled: false }, ...options }), root)
+    return generator.generateRoutes()
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'auto-router-'))
+    vi.spyOn(process, 'cwd').mockReturnValue(root)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  describe('file scanning', () => {
+    it('should apply the same exclude globs and extensions as the dev watcher', async () => {
+      writePage('About.vue')
+      writePage('Dashboard.tsx', 'export default {}')
+      writePage('components/Card.vue')
+      writePage('mycomponents/List.vue')
+      writePage('.drafts/Draft.vue')
+
+      const routes = await generate({ extensions: ['.vue', '.tsx'] })
+
+      expect(routes.map(route => route.path)).toEqual(['/About', '/Dashboard', '/mycomponents/List'])
+    })
+
+    it('should not walk excluded or hidden directories', async () => {
+      writePage('About.vue')
+      writePage('node_modules/pkg/Page.vue')
+      writePage('components/Card.vue')
+      writePage('.cache/Old.vue')
+      const [scanDir] = createPathContext(mergeOptions({}), root).scanDirs
+
+      const walked = await glob('**/*', { cwd: scanDir.dir, nodir: true, dot: true, ignore: getScanIgnorePatterns(scanDir) })
+
+      expect(walked).toEqual(['About.vue'])
+    })
+  })
+
+  describe('project root', () => {
+    beforeEach(() => {
+      // 模拟在 monorepo 根目录运行 Vite，root 指向子项目
+      vi.spyOn(process, 'cwd').mockReturnValue(os.tmpdir())
+    })
+
+    it('should resolve paths, home pages and imports against the root instead of cwd', async () => {
+      writePage('index.vue')
+      writePage('user/index.vue')
+      writePage('user/Profile.vue')
+
+      const generator = new RouteGenerator(mergeOptions({ notFound: { enabled: false } }), root)
+      const routes = await generator.generateRoutes()
+      const content = await generator.generateRoutesFile()
+
+      expect(routes.map(route => [route.path, route.name])).toEqual([['/', 'home'], ['/user', 'user'], ['/user/Profile', 'user-Profile']])
+      expect(content).toContain("component: () => import('../../views/user/Profile.vue')")
+      expect(content).not.toContain('../../../')
+    })
+
+    it('should watch and match files relative to the Vite root', () => {
+      writePage('About.vue')
+      const watcher = { add: vi.fn(), on: vi.fn() }
+      const plugin = vueAutoRouter({ notFound: { enabled: false } }) as any
+
+      plugin.configResolved({ root })
+      plugin.configureServer({ watcher })
+
+      expect(watcher.add).toHaveBeenCalledWith(path.join(root, 'src/views'))
+      expect(watcher.on).toHaveBeenCalledWith('change', expect.any(Function))
+    })
+  })
+
+  describe('nested routes', () => {
+    it('should nest directory pages under a same-named layout file', async () => {
+      writePage('user.vue')
+      writePage('user/Profile.vue')
+      writePage('user/[id].vue')
+
+      const routes = await generate()
+
+      expect(routes).toHaveLength(1)
+      expect(routes[0].path).toBe('/user')
+      expect(routes[0].name).toBe('user')
+      expect(routes[0].children?.map(child => child.path).sort()).toEqual([':id', 'Profile'])
+      expect(routes[0].children?.map(child => child.name).sort()).toEqual(['user-Profile', 'user-id'])
+    })
+
+    it('should move the route name to the empty-path index child', async () => {
+      writePage('user.vue')
+      writePage('user/index.vue')
+
+      const routes = await generate()
+
+      expect(routes).toHaveLength(1)
+      expect(routes[0].name).toBeUndefined()
+      expect(routes[0].children).toHaveLength(1)
+      expect(routes[0].children?.[0]).toMatchObject({ path: '', name: 'user' })
+    })
+
+    it('should support multiple levels of layouts', async () => {
+      writePage('admin.vue')
+      writePage('admin/settings.vue')
+      writePage('admin/settings/Security.vue')
+
+      const routes = await generate()
+      const settings = routes[0].children?.[0]
+
+      expect(routes).toHaveLength(1)
+      expect(settings?.path).toBe('settings')
+      expect(settings?.children?.[0].path).toBe('Security')
+    })
+
+    it('should keep routes flat when no layout file exists', async () => {
+      writePage('About.vue')
+      writePage('user/Profile.vue')
+
+      const routes = await generate()
+
+      expect(routes.map(route => route.path).sort()).toEqual(['/About', '/user/Profile'])
+      expect(routes.every(route => !route.children)).toBe(true)
+    })
+  })
+
+  describe('route groups', () => {
+    it('should drop group directories from paths and names', async () => {
+      writePage('(auth)/login.vue')
+      writePage('(dashboard)/reports/index.vue')
+      writePage('(dashboard)/index.vue')
+
+      const routes = await generate()
+      const byName = Object.fromEntries(routes.map(route => [route.name, route.path]))
+
+      expect(byName).toEqual({ 'login': '/login', 'reports': '/reports', 'home': '/' })
+    })
+
+    it('should use _layout as an unnamed parent route for the group', async () => {
+      writePage('(auth)/_layout.vue')
+      writePage('(auth)/login.vue')
+      writePage('(auth)/register.vue')
+      writePage('About.vue')
+
+      const routes = await generate()
+      const layout = routes.find(route => !route.name)
+
+      expect(routes).toHaveLength(2)
+      expect(layout?.path).toBe('/')
+      expect(layout?.children?.map(child => [child.path, child.name]).sort()).toEqual([
+        ['login', 'login'],
+        ['register', 'register']
+      ])
+    })
+
+    it('should let the home page match / before a top-level group layout', async () => {
+      writePage('(auth)/_layout.vue')
+      writePage('(auth)/login.vue')
+      writePage('index.vue')
+
+      const router = createRouter({ history: createMemoryHistory(), routes: await generate() })
+
+      expect(router.resolve('/').name).toBe('home')
+      expect(router.resolve('/login').matched).toHaveLength(2)
+    })
+
+    it('should resolve / to the group index instead of another group layout', async () => {
+      writePage('(auth)/_layout.vue')
+      writePage('(auth)/login.vue')
+      writePage('(dashboard)/_layout.vue')
+      writePage('(dashboard)/index.vue')
+
+      const router = createRouter({ history: createMemoryHistory(), routes: await generate() })
+      const resolved = router.resolve('/')
+
+      expect(resolved.name).toBe('home')
+      expect(resolved.matched).toHaveLength(2)
+    })
+
+    it('should apply _group.ts meta to every page in the group', async () => {
+      writePage('(admin)/_group.ts', `export default { meta: { requiresAuth: true, layout: 'admin' } }`)
+      writePage('(admin)/(billing)/_group.ts', `export default { meta: { layout: 'billing' } }`)
+      writePage('(admin)/users.vue')
+      writePage('(admin)/(billing)/invoices.vue', `<script setup>
+defineOptions({ meta: { title: 'Invoices', requiresAuth: false } })
+</script>`)
+
+      const routes = await generate({ extensions: ['.vue', '.ts'] })
+      const byName = Object.fromEntries(routes.map(route => [route.name, route.meta]))
+
+      expect(Object.keys(byName).sort()).toEqual(['invoices', 'users'])
+      expect(byName.users).toMatchObject({ requiresAuth: true, layout: 'admin' })
+      expect(byName.invoices).toMatchObject({ title: 'Invoices', requiresAuth: false, layout: 'billing' })
+    })
+  })
+
+  describe('directory meta', () => {
+    it('should cascade _meta files to every page below the directory', async () => {
+      writePage('_meta.json', '{ "layout": "default", "requiresAuth": false }')
+      writePage('admin/_meta.ts', `export default { requiresAuth: true, permissions: ['admin'] }`)
+      writePage('admin/audit/_meta.json', '{ "permissions": ["auditor"] }')
+      writePage('About.vue')
+      writePage('admin/Users.vue')
+      writePage('admin/audit/Logs.vue', `<script setup>
+defineOptions({ meta: { permissions: ['root'] } })
+</script>`)
+      writePage('admin/audit/Export.vue')
+
+      const routes = await generate({ extensions: ['.vue', '.ts'] })
+      const byName = Object.fromEntries(routes.map(route => [route.name, route.meta]))
+
+      expect(Object.keys(byName).sort()).toEqual(['About', 'admin-Users', 'admin-audit-Export', 'admin-audit-Logs'])
+      expect(byName.About).toMatchObject({ layout: 'default', requiresAuth: false })
+      expect(byName['admin-Users']).toMatchObject({ layout: 'default', requiresAuth: true, permissions: ['admin'] })
+      expect(byName['admin-audit-Export']).toMatchObject({ requiresAuth: true, permissions: ['auditor'] })
+      expect(byName['admin-audit-Logs']).toMatchObject({ requiresAuth: true, permissions: ['root'] })
+    })
+  })
+
+  describe('meta merging', () => {
+    it('should deep merge global, directory and page meta', async () => {
+      writePage('admin/_meta.json', '{ "permissions": ["admin"], "params": { "layout": "admin" } }')
+      writePage('admin/Users.vue', `<script setup>
+defineOptions({ meta: { permissions: ['users'], params: { keepAlive: true } } })
+</script>`)
+
+      const routes = await generate({
+        meta: { title: 'My App', params: { requiresAuth: false } },
+        metaMerge: { arrays: { permissions: 'union' } }
+      })
+
+      expect(routes[0].meta).toEqual({
+        title: 'Admin Users',
+        permissions: ['admin', 'users'],
+        params: { requiresAuth: false, layout: 'admin', keepAlive: true }
+      })
+    })
+
+    it('should use a custom mergeMeta hook for pages and the 404 route', async () => {
+      writePage('About.vue', `<script setup>
+defineOptions({ meta: { title: 'About us' } })
+</script>`)
+      writePage('404.vue')
+      const mergeMeta = vi.fn((globalMeta, dirMeta, pageMeta) => ({ ...pageMeta, ...dirMeta, ...globalMeta, merged: true }))
+
+      const routes = await generate({ meta: { hidden: false }, mergeMeta, notFound: { enabled: true } })
+      const byName = Object.fromEntries(routes.map(route => [route.name, route.meta]))
+
+      expect(byName.About).toEqual({ title: 'About', hidden: false, merged: true })
+      expect(byName['not-found']).toEqual({ title: '404 Not Found', hidden: true, merged: true })
+      expect(mergeMeta).toHaveBeenCalledWith(
+        { title: 'About', hidden: false },
+        {},
+        { title: 'About us' },
+        expect.stringContaining('About.vue')
+      )
+    })
+  })
+
+  describe('deterministic output', () => {
+    it('should sort routes and skip rewriting unchanged files', async () => {
+      writePage('user/[id].vue')
+      writePage('user/new.vue')
+      writePage('About.vue')
+      const generator = new RouteGenerator(mergeOptions({ notFound: { enabled: false } }), root)
+
+      const routes = await generator.generateRoutes()
+      expect(routes.map(route => route.path)).toEqual(['/About', '/user/new', '/user/:id'])
+
+      await generator.writeFiles()
+      const writeSpy = vi.spyOn(fs, 'writeFileSync')
+      await new RouteGenerator(mergeOptions({ notFound: { enabled: false } }), root).writeFiles()
+
+      expect(writeSpy).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('incremental regeneration', () => {
+    const createGenerator = () => new RouteGenerator(mergeOptions({ notFound: { enabled: false } }), root)
+
+    it('should reuse parsed pages until their mtime changes', async () => {
+      writePage('About.vue', `<script setup>
+defineOptions({ meta: { title: 'About us', params: { handler: () => {} } } })
+</script>`)
+      const generator = createGenerator()
+      await generator.generateRoutes()
+
+      const readSpy = vi.spyOn(fs, 'readFileSync')
+      const routes = await generator.generateRoutes()
+
+      expect(readSpy).not.toHaveBeenCalled()
+      expect(routes[0].meta).toEqual({ title: 'About us', params: {} })
+      expect(generator.getDiagnostics()).toEqual([expect.objectContaining({ code: 'UNPARSEABLE_META', line: 2 })])
+    })
+
+    it('should skip template-only changes and pick up route option changes', async () => {
+      writePage('About.vue', `<template><div>Old</div></template>
+<script setup>
+defineOptions({ meta: { title: 'About us' } })
+</script>`)
+      const generator = createGenerator()
+      await generator.generateRoutes()
+      const file = path.join(root, 'src/views/About.vue')
+
+      writePage('About.vue', `<template><div>New</div></template>
+<script setup>
+defineOptions({ meta: { title: 'About us' } })
+</script>`)
+      expect(generator.updateFile(file, 'change')).toBe(false)
+
+      writePage('About.vue', `<template><div>New</div></template>
+<script setup>
+defineOptions({ meta: { title: 'About' } })
+</script>`)
+      expect(generator.updateFile(file, 'change')).toBe(true)
+      expect((await generator.generateRoutes())[0].meta).toEqual({ title: 'About' })
+    })
+
+    it('should patch the file list on add and unlink', async () => {
+      writePage('About.vue')
+      const generator = createGenerator()
+      await generator.generateRoutes()
+
+      writePage('Contact.vue')
+      expect((await generator.generateRoutes()).map(route => route.path)).toEqual(['/About'])
+      expect(generator.updateFile(path.join(root, 'src/views/Contact.vue'), 'add')).toBe(true)
+      expect((await generator.generateRoutes()).map(route => route.path)).toEqual(['/About', '/Contact'])
+
+      fs.rmSync(path.join(root, 'src/views/About.vue'))
+      generator.updateFile(path.join(root, 'src/views/About.vue'), 'unlink')
+      expect((await generator.generateRoutes()).map(route => route.path)).toEqual(['/Contact'])
+    })
+  })
+
+  describe('ambiguous paths', () => {
+    it('should report paths that only differ by param name or case', async () => {
+      writePage('user/[id].vue')
+      writePage('user/[userId].vue')
+      writePage('about.vue')
+      writePage('About/index.vue')
+
+      const generator = new RouteGenerator(mergeOptions({ notFound: { enabled: false } }), root)
+      const routes = await generator.generateRoutes()
+
+      expect(routes.map(route => route.path)).toEqual(['/About', '/user/:id'])
+      expect(generator.getDiagnostics()).toEqual([
+        expect.objectContaining({
+          code: 'DUPLICATE_PATH',
+          message: 'Path "/about" matches the same URLs as "/About" in src/views/About/index.vue, this route is skipped'
+        }),
+        expect.objectContaining({
+          code: 'DUPLICATE_PATH',
+          message: 'Path "/user/:userId" matches the same URLs as "/user/:id" in src/views/user/[id].vue, this route is skipped'
+        })
+      ])
+    })
+  })
+
+  describe('hooks', () => {
+    it('should let extendRoute mutate, replace or drop routes', async () => {
+      writePage('About.vue', `<script setup>
+defineOptions({ meta: { title: 'About us' } })
+</script>`)
+      writePage('Contact.vue')
+      writePage('Draft.vue')
+      const extendRoute = vi.fn(async (route, { relativePath }) => {
+        if (relativePath === 'Draft.vue') return null
+        if (relativePath === 'Contact.vue') return { ...route, path: '/contact-us' }
+        route.meta = { ...route.meta, extended: true }
+      })
+
+      const routes = await generate({ extendRoute })
+
+      expect(routes.map(route => route.path).sort()).toEqual(['/About', '/contact-us'])
+      expect(routes.find(route => route.path === '/About')?.meta).toMatchObject({ title: 'About us', extended: true })
+      expect(extendRoute).toHaveBeenCalledWith(expect.objectContaining({ name: 'About' }), {
+        file: expect.stringContaining('About.vue'),
+        relativePath: 'About.vue',
+        meta: { title: 'About us' }
+      })
+    })
+
+    it('should let onRoutesGenerated post-process the whole list before rendering', async () => {
+      writePage('About.vue')
+      writePage('Home.vue')
+      const generator = new RouteGenerator(mergeOptions({
+        notFound: { enabled: false },
+        onRoutesGenerated: async routes => [
+          { path: '/docs', redirect: 'https://example.com' },
+          ...routes.sort((a, b) => a.path.localeCompare(b.path))
+        ]
+      }), root)
+
+      const content = await generator.generateRoutesFile()
+
+      expect(content.indexOf("path: '/docs'")).toBeLessThan(content.indexOf("path: '/'"))
+      expect(content.indexOf("path: '/'")).toBeLessThan(content.indexOf("path: '/About'"))
+    })
+  })
+
+  describe('pathPrefix', () => {
+    it('should mount every generated route under the prefix', async () => {
+      writePage('index.vue')
+      writePage('About.vue')
+      writePage('user/index.vue')
+      writePage('404.vue')
+
+      const routes = await generate({ pathPrefix: 'admin/', notFound: { enabled: true } })
+      const byName = Object.fromEntries(routes.map(route => [route.name, route.path]))
+
+      expect(byName).toEqual({
+        'admin-home': '/admin',
+        'admin-About': '/admin/About',
+        'admin-user': '/admin/user',
+        'admin-not-found': '/admin/:pathMatch(.*)*'
+      })
+    })
+  })
+
+  describe('multiple scan directories', () => {
+    const writeFile = (relativePath: string, content = '<template><div /></template>') => {
+      const filePath = path.join(root, relativePath)
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      fs.writeFileSync(filePath, content)
+    }
+
+    it('should resolve each file against its own directory and options', async () => {
+      writePage('index.vue')
+      writeFile('packages/shop/pages/Cart.vue')
+      writeFile('packages/shop/pages/Cart.test.vue')
+
+      const routes = await generate({
+        meta: { requiresAuth: false },
+        scanDir: [
+          'src/views',
+          { dir: 'packages/shop/pages', pathPrefix: '/shop', exclude: ['**/*.test.vue'], meta: { module: 'shop' } }
+        ]
+      })
+      const byName = Object.fromEntries(routes.map(route => [route.name, route]))
+
+      expect(Object.keys(byName).sort()).toEqual(['home', 'shop-Cart'])
+      expect(byName.home.path).toBe('/')
+      expect(byName['shop-Cart'].path).toBe('/shop/Cart')
+      expect(byName['shop-Cart'].meta).toMatchObject({ title: 'Cart', requiresAuth: false, module: 'shop' })
+    })
+
+    it('should expand glob patterns into one directory per match', async () => {
+      writeFile('src/modules/user/pages/index.vue')
+      writeFile('src/modules/order/pages/List.vue')
+
+      const routes = await generate({ scanDir: [{ dir: 'src/modules/*/pages', pathPrefix: '/m' }] })
+
+      expect(routes.map(route => route.path).sort()).toEqual(['/m', '/m/List'])
+    })
+
+    it('should pick up directories that start matching a glob pattern in the dev server', async () => {
+      writeFile('src/modules/order/pages/Orders.vue')
+      const handlers: Record<string, (file: string) => void> = {}
+      const watcher = { add: vi.fn(), on: (event: string, handler: (file: string) => void) => (handlers[event] = handler) }
+      const plugin = vueAutoRouter({ notFound: { enabled: false }, scanDir: 'src/modules/*/pages' }) as any
+
+      plugin.configResolved({ root })
+      plugin.configureServer({
+        watcher,
+        moduleGraph: { getModuleById: (id: string) => ({ id }), invalidateModule: vi.fn() },
+        reloadModule: vi.fn(),
+        ws: { send: vi.fn() },
+      })
+      writeFile('src/modules/invoice/pages/Invoices.vue')
+      handlers.addDir(path.join(root, 'src/modules/invoice/pages'))
+      handlers.add(path.join(root, 'src/modules/invoice/pages/Invoices.vue'))
+
+      expect(watcher.add).toHaveBeenCalledWith(path.join(root, 'src/modules'))
+      await vi.waitFor(() => {
+        const content = fs.readFileSync(path.join(root, 'src/router/auto/routes.ts'), 'utf-8')
+        expect(content).toContain("path: '/Invoices'")
+        expect(content).toContain("path: '/Orders'")
+      })
+    })
+
+    it('should only nest layouts within the same directory', async () => {
+      writePage('user.vue')
+      writeFile('src/admin/user/Profile.vue')
+
+      const routes = await generate({ scanDir: ['src/views', { dir: 'src/admin', pathPrefix: '/admin' }] })
+
+      expect(routes.map(route => route.path).sort()).toEqual(['/admin/user/Profile', '/user'])
+      expect(routes.every(route => !route.children)).toBe(true)
+    })
+  })
+
+  describe('generated code type-checks', () => {
+    // 用 TypeScript 检查写入的路由文件，页面使用常见的 '*.vue' 类型声明
+    const typeCheckRoutesFile = (): string[] => {
+      fs.symlinkSync(fileURLToPath(new URL('../node_modules', import.meta.url)), path.join(root, 'node_modules'), 'dir')
+      fs.writeFileSync(path.join(root, 'shim.d.ts'), `/// <reference types="vite/client" />
+declare module '*.vue' {
+  import type { DefineComponent } from 'vue'
+  const component: DefineComponent
+  export default component
+}
+`)
+      const program = ts.createProgram([path.join(root, 'src/router/auto/routes.ts'), path.join(root, 'shim.d.ts')], {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        // 生成的代码从包的运行时入口导入辅助函数
+        paths: { '@wemt/vue3-auto-router/runtime': [fileURLToPath(new URL('../src/runtime/index.ts', import.meta.url))] },
+      })
+      return ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'))
+    }
+
+    it('should emit redirect pages and named guards that satisfy RouteRecordRaw', async () => {
+      writePage('Docs.vue', `<route lang="yaml">
+redirect: /docs/intro
+</route>`)
+      writePage('Admin.vue', `<script lang="ts">
+export const checkAccess = () => true
+</script>
+<script setup lang="ts">
+definePage({ beforeEnter: 'checkAccess' })
+</script>`)
+      writePage('About.vue')
+      const generator = new RouteGenerator(mergeOptions({ notFound: { enabled: false }, lazy: false }), root)
+
+      await generator.writeFiles()
+      const content = fs.readFileSync(path.join(root, 'src/router/auto/routes.ts'), 'utf-8')
+
+      expect(content).toContain("redirect: '/docs/intro'")
+      expect(content).not.toContain('Docs.vue')
+      expect(typeCheckRoutesFile()).toEqual([])
+    }, 30000)
+  })
+
+  describe('<route> block overrides', () => {
+    it('should apply route-level overrides from the custom block', async () => {
+      writePage('Login.vue', `<route lang="yaml">
+path: /sign-in
+name: login
+alias: /login
+props: true
+meta:
+  guest: true
+</route>
+<script setup>
+defineOptions({ meta: { title: 'Sign in' } })
+</script>`)
+
+      const routes = await generate({ pathPrefix: '/auth' })
+
+      expect(routes[0]).toMatchObject({
+        path: '/auth/sign-in',
+        name: 'login',
+        alias: '/auth/login',
+        props: true,
+        meta: { title: 'Sign in', guest: true }
+      })
+    })
+  })
+
+  describe('per-page overrides', () => {
+    it('should emit beforeEnter, sensitive and strict for the page', async () => {
+      writePage('Admin.vue', `<script lang="ts">
+export const checkAccess = () => true
+</script>
+<script setup lang="ts">
+definePage({ beforeEnter: 'checkAccess', sensitive: true, strict: false })
+</script>`)
+
+      const generator = new RouteGenerator(mergeOptions({ notFound: { enabled: false } }), root)
+      const content = await generator.generateRoutesFile()
+
+      expect(content).toContain("beforeEnter: loadPageGuard(() => import('../../views/Admin.vue'), 'checkAccess')")
+      expect(content).toContain('sensitive: true')
+      expect(content).toContain('strict: false')
+    })
+
+    it('should detect conflicts against the overridden paths', async () => {
+      writePage('About.vue')
+      writePage('Company.vue', `<script setup>
+definePage({ path: '/About' })
+</script>`)
+
+      const generator = new RouteGenerator(mergeOptions({ notFound: { enabled: false } }), root)
+      const routes = await generator.generateRoutes()
+
+      expect(routes).toHaveLength(1)
+      expect(generator.getDiagnostics()).toEqual([{
+        code: 'DUPLICATE_PATH',
+        level: 'error',
+        message: 'Path "/About" is already used by src/views/About.vue, this route is skipped',
+        file: 'src/views/Company.vue'
+      }])
+    })
+
+    it('should resolve generated conflicts through path overrides', async () => {
+      writePage('UserList.vue')
+      writePage('user-list.vue', `<script setup>
+definePage({ path: '/users' })
+</script>`)
+
+      const routes = await generate({ naming: { kebabCase: true } })
+
+      expect(routes.map(route => route.path).sort()).toEqual(['/user-list', '/users'])
+    })
+  })
+
+  describe('lazy loading', () => {
+    const generateFile = (options: AutoRouterOptions = {}) => {
+      const generator = new RouteGenerator(mergeOptions({ notFound: { enabled: false }, ...options }), root)
+      return generator.generateRoutesFile()
+    }
+
+    it('should emit static imports when lazy is false', async () => {
+      writePage('About.vue')
+      writePage('user/[id].vue')
+
+      const content = await generateFile({ lazy: false })
+
+      expect(content).toContain("import AboutPage from '../../views/About.vue'")
+      expect(content).toContain("import UserIdPage from '../../views/user/[id].vue'")
+      expect(content).toContain('component: AboutPage')
+      expect(content).not.toContain('() => import(')
+    })
+
+    it('should let a page opt out of lazy loading via defineOptions', async () => {
+      writePage('Home.vue', `<script setup lang="ts">
+defineOptions({
+  lazy: false,
+  meta: { title: 'Home' }
+})
+</script>`)
+      writePage('About.vue')
+
+      const content = await generateFile()
+
+      expect(content).toContain("import HomePage from '../../views/Home.vue'")
+      expect(content).toContain('component: HomePage')
+      expect(content).toContain("component: () => import('../../views/About.vue')")
+    })
+
+    it('should let a page opt into lazy loading when lazy is false', async () => {
+      writePage('Heavy.vue', `<script setup lang="ts">
+defineOptions({ lazy: true })
+</script>`)
+
+      const content = await generateFile({ lazy: false })
+
+      expect(content).toContain("component: () => import('../../views/Heavy.vue')")
+      expect(content).not.toContain('import HeavyPage')
+    })
+  })
+
+  describe('diagnostics', () => {
+    it('should report duplicate names, unparseable meta and a missing 404 component', async () => {
+      writePage('About.vue', `<script setup>
+definePage({ name: 'info' })
+</script>`)
+      writePage('Contact.vue', `<route>{ "name": "info", "meta": { broken </route>`)
+      writePage('Help.vue', `<script setup>
+definePage({ name: 'info' })
+</script>`)
+
+      const generator = new RouteGenerator(mergeOptions({ notFound: { component: 'src/views/NotFound.vue' } }), root)
+      await generator.generateRoutes()
+      const diagnostics = generator.getDiagnostics()
+
+      expect(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.level])).toEqual([
+        ['MISSING_NOT_FOUND', 'error'],
+        ['UNPARSEABLE_META', 'warning'],
+        ['DUPLICATE_NAME', 'error']
+      ])
+      expect(diagnostics[1].file).toBe('src/views/Contact.vue')
+      expect(diagnostics[2]).toMatchObject({
+        message: 'Route name "info" is already used by src/views/About.vue',
+        file: 'src/views/Help.vue'
+      })
+    })
+
+    it('should rename generated duplicate names with a numeric suffix', async () => {
+      writePage('foo-bar.vue')
+      writePage('foo/bar.vue')
+      writePage('user.vue')
+      writePage('user/index.vue')
+
+      const generator = new RouteGenerator(mergeOptions({ notFound: { enabled: false } }), root)
+      const routes = await generator.generateRoutes()
+
+      expect(routes.map(route => [route.path, route.name])).toEqual([['/foo/bar', 'foo-bar'], ['/foo-bar', 'foo-bar-2'], ['/user', undefined]])
+      expect(routes[2].children?.[0].name).toBe('user')
+      expect(generator.getDiagnostics()).toEqual([{
+        code: 'DUPLICATE_NAME',
+        level: 'warning',
+        message: 'Route name "foo-bar" is used by both src/views/foo/bar.vue and src/views/foo-bar.vue, renamed src/views/foo-bar.vue to "foo-bar-2"',
+        file: 'src/views/foo-bar.vue'
+      }])
+    })
+
+    it('should rename to the file path with the path strategy and keep explicit names', async () => {
+      writePage('foo-bar.vue')
+      writePage('foo/bar.vue')
+      writePage('Info.vue', `<script setup>
+definePage({ name: 'About' })
+</script>`)
+      writePage('About.vue')
+
+      const routes = await generate({ naming: { duplicateNames: 'path' } })
+
+      expect(routes.map(route => [route.path, route.name])).toEqual([
+        ['/About', 'About-2'],
+        ['/Info', 'About'],
+        ['/foo/bar', 'foo/bar'],
+        ['/foo-bar', 'foo-bar']
+      ])
+    })
+
+    it('should leave duplicate names untouched when disambiguation is disabled', async () => {
+      writePage('foo-bar.vue')
+      writePage('foo/bar.vue')
+
+      const generator = new RouteGenerator(mergeOptions({ naming: { duplicateNames: 'none' }, notFound: { enabled: false } }), root)
+      const routes = await generator.generateRoutes()
+
+      expect(routes.map(route => route.name)).toEqual(['foo-bar', 'foo-bar'])
+      expect(generator.getDiagnostics()).toEqual([expect.objectContaining({ code: 'DUPLICATE_NAME', level: 'error' })])
+    })
+
+    it('should fall back to an auto-detected 404 page and read its meta', async () => {
+      writePage('About.vue')
+      writePage('[...all].vue', `<script setup>
+defineOptions({ meta: { layout: 'blank' } })
+</script>`)
+
+      const generator = new RouteGenerator(mergeOptions({ lazy: false }), root)
+      const routes = await generator.generateRoutes()
+      const content = await generator.generateRoutesFile()
+
+      expect(routes.map(route => route.path)).toEqual(['/About', '/:pathMatch(.*)*'])
+      expect(routes[1]).toMatchObject({ name: 'not-found', meta: { title: '404 Not Found', hidden: true, layout: 'blank' } })
+      expect(content).toContain("import AllPage from '../../views/[...all].vue'")
+      expect(generator.getDiagnostics()).toEqual([expect.objectContaining({
+        code: 'MISSING_NOT_FOUND',
+        level: 'warning',
+        message: '404 component "src/views/404.vue" does not exist, using src/views/[...all].vue instead'
+      })])
+    })
+
+    it('should skip the 404 route when no component can be found', async () => {
+      writePage('About.vue')
+      writePage('admin/NotFound.vue')
+
+      const generator = new RouteGenerator(mergeOptions({}), root)
+      const routes = await generator.generateRoutes()
+
+      expect(routes.map(route => route.path)).toEqual(['/About', '/admin/NotFound'])
+      expect(await generator.generateRoutesFile()).not.toContain('404')
+      expect(generator.getDiagnostics()).toEqual([expect.objectContaining({ code: 'MISSING_NOT_FOUND', level: 'warning' })])
+    })
+
+    it('should report scan directories that do not exist', async () => {
+      writePage('Home.vue')
+
+      const generator = new RouteGenerator(mergeOptions({ scanDir: ['src/views', 'src/pages'], notFound: { enabled: false } }), root)
+      await generator.generateRoutes()
+
+      expect(generator.getDiagnostics()).toEqual([
+        { code: 'SCAN_DIR_MISSING', level: 'error', message: 'Scan directory "src/pages" does not exist' }
+      ])
+    })
+
+    it('should report option errors once through the Vite logger', async () => {
+      writePage('About.vue')
+      const logger = { warn: vi.fn(), error: vi.fn() }
+      const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      const plugin = vueAutoRouter({ homeRoute: { fileNames: [] }, notFound: { enabled: false } }) as any
+      plugin.configResolved({ root, command: 'build', logger })
+      await plugin.buildStart.call({ error: vi.fn() })
+
+      expect(consoleWarn).not.toHaveBeenCalled()
+      expect(logger.error).toHaveBeenCalledTimes(1)
+      expect(logger.error).toHaveBeenCalledWith('[vue-auto-router] [INVALID_OPTION] homeRoute.fileNames cannot be empty')
+    })
+
+    it('should fail vite build on errors only in strict mode', async () => {
+      writePage('About.vue')
+      writePage('about/index.vue')
+      const logger = { warn: vi.fn(), error: vi.fn() }
+      const context = { error: vi.fn((message: string) => { throw new Error(message) }) }
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      const createPlugin = (strict: boolean) => {
+        const plugin = vueAutoRouter({ strict, notFound: { enabled: false } }) as any
+        plugin.configResolved({ root, command: 'build', logger })
+        return plugin
+      }
+
+      await createPlugin(false).buildStart.call(context)
+      expect(context.error).not.toHaveBeenCalled()
+      expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('[vue-auto-router] [DUPLICATE_PATH]'))
+
+      await expect(createPlugin(true).buildStart.call(context)).rejects.toThrow('Route generation failed with 1 error(s)')
+    })
+  })
+
+  describe('hot module replacement', () => {
+    // 在开发服务器中新增页面，返回重新加载的模块
+    const addPageInDevServer = async (options: AutoRouterOptions, expectedReloads: number) => {
+      writePage('About.vue')
+      const handlers: Record<string, (file: string) => void> = {}
+      const reloadModule = vi.fn()
+      const plugin = vueAutoRouter({ notFound: { enabled: false }, ...options }) as any
+
+      plugin.configResolved({ root })
+      plugin.configureServer({
+        watcher: { add: vi.fn(), on: (event: string, handler: (file: string) => void) => (handlers[event] = handler) },
+        moduleGraph: { getModuleById: (id: string) => ({ id }), invalidateModule: vi.fn() },
+        reloadModule,
+        ws: { send: vi.fn() },
+      })
+      writePage('Contact.vue')
+      handlers.add(path.join(root, 'src/views/Contact.vue'))
+
+      await vi.waitFor(() => expect(reloadModule).toHaveBeenCalledTimes(expectedReloads))
+      return reloadModule.mock.calls.map(([module]) => module.id)
+    }
+
+    it('should reload the generated modules and the router module by default', async () => {
+      expect(await addPageInDevServer({}, 3)).toEqual([
+        path.join(root, 'src/router/auto/routes.ts'),
+        path.join(root, 'src/router/auto/config.ts'),
+        path.join(root, 'src/router/index.ts'),
+      ])
+    })
+
+    it('should reload the configured hmr.invalidate modules instead of the default', async () => {
+      expect(await addPageInDevServer({ hmr: { invalidate: ['src/app/router.ts', 'src/app/menu.ts'] } }, 4)).toEqual([
+        path.join(root, 'src/router/auto/routes.ts'),
+        path.join(root, 'src/router/auto/config.ts'),
+        path.join(root, 'src/app/router.ts'),
+        path.join(root, 'src/app/menu.ts'),
+      ])
+    })
+
+    it('should not reload hmr.invalidate modules when routes are swapped at runtime', async () => {
+      expect(await addPageInDevServer({ hmr: { runtime: true } }, 2)).toEqual([
+        path.join(root, 'src/router/auto/routes.ts'),
+        path.join(root, 'src/router/auto/config.ts'),
+      ])
+    })
+
+    it('should reload hmr.invalidate modules in virtual mode', async () => {
+      expect(await addPageInDevServer({ virtual: true }, 3)).toEqual([
+        '\0virtual:auto-routes',
+        '\0virtual:auto-routes/config',
+        path.join(root, 'src/router/index.ts'),
+      ])
+    })
+
+    it('should wire the runtime helper into the routes file when hmr.runtime is enabled', async () => {
+      writePage('About.vue')
+      const generator = new RouteGenerator(mergeOptions({ notFound: { enabled: false }, hmr: { runtime: true } }), root)
+
+      const content = await generator.generateRoutesFile()
+
+      expect(content).toContain("import { addRoutes, replaceRoutes } from '@wemt/vue3-auto-router/runtime'")
+      expect(content).toContain('export function handleHotUpdate(router: Router): void')
+    })
+
+    it('should swap generated nested and group layouts on a live router', async () => {
+      // 生成的组件是代码字符串，替换为组件对象后才能在路由中导航
+      const Page = { render: () => null }
+      const withComponents = (routes: RouteRecordRaw[]): RouteRecordRaw[] =>
+        routes.map(route => ({ ...route, component: Page, children: route.children && withComponents(route.children) }) as RouteRecordRaw)
+
+      writePage('index.vue')
+      writePage('user.vue')
+      writePage('user/index.vue')
+      writePage('user/Profile.vue')
+      writePage('(auth)/_layout.vue')
+      writePage('(auth)/login.vue')
+      const generator = new RouteGenerator(mergeOptions({ notFound: { enabled: false } }), root)
+      const oldRoutes = withComponents(await generator.generateRoutes())
+      expect(oldRoutes.filter(route => !route.name)).toHaveLength(2)
+
+      const router = createRouter({ history: createMemoryHistory(), routes: [] })
+      const removeRoutes = addRoutes(router, oldRoutes)
+      const recordCount = router.getRoutes().length
+      await router.push('/user/Profile?tab=1')
+
+      fs.rmSync(path.join(root, 'src/views/user/Profile.vue'))
+      writePage('user/Settings.vue')
+      generator.resetFileList()
+      replaceRoutes(router, removeRoutes, withComponents(await generator.generateRoutes()))
+      await new Promise(resolve => setTimeout(resolve))
+
+      expect(router.getRoutes()).toHaveLength(recordCount)
+      expect(router.hasRoute('user-Profile')).toBe(false)
+      expect(router.resolve('/user/Settings').matched).toHaveLength(2)
+      expect(router.resolve('/').name).toBe('home')
+      expect(router.currentRoute.value.fullPath).toBe('/user/Profile?tab=1')
+      expect(router.currentRoute.value.matched).toHaveLength(0)
+    })
+  })
+
+  describe('virtual module', () => {
+    const createPlugin = () => {
+      const plugin = vueAutoRouter({ virtual: true, notFound: { enabled: false } }) as any
+      plugin.configResolved({ root })
+      return plugin
+    }
+
+    it('should resolve and load the virtual routes module as plain JavaScript', async () => {
+      writePage('Home.vue')
+      writePage('About.vue')
+      const plugin = createPlugin()
+
+      const resolvedId = plugin.resolveId('virtual:auto-routes')
+      const content = await plugin.load(resolvedId)
+
+      expect(resolvedId).toBe('\0virtual:auto-routes')
+      expect(content).not.toContain('import type')
+      expect(content).not.toContain('RouteRecordRaw[]')
+      expect(content).toContain("component: () => import('/src/views/About.vue')")
+      expect(content).toContain('export default autoRoutes')
+    })
+
+    it('should serve the config module and skip writing routes into src', async () => {
+      writePage('Home.vue')
+      const plugin = createPlugin()
+
+      await plugin.buildStart()
+      const content = await plugin.load(plugin.resolveId('virtual:auto-routes/config'))
+
+      expect(content).toContain('export const routeConfig')
+      expect(fs.existsSync(path.join(root, 'src/router/auto/routes.ts'))).toBe(false)
+      expect(fs.existsSync(path.join(root, 'src/router/auto/config.ts'))).toBe(false)
+      expect(fs.existsSync(path.join(root, 'src/router/auto/typed-router.d.ts'))).toBe(true)
+    })
+
+    it('should not resolve virtual ids when virtual mode is disabled', () => {
+      const plugin = vueAutoRouter() as any
+
+      expect(plugin.resolveId('virtual:auto-routes')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,316 @@
+import { describe, it, expect, vi } from 'vitest'
+import { parseMetaFileSource, parseRouteOptionsFromSource, stripRouteConfig } from '../src/parser'
+
+describe('parser.ts', () => {
+  describe('parseRouteOptionsFromSource', () => {
+    it('should extract nested meta objects from defineOptions', () => {
+      const source = `<template><div /></template>
+<script setup lang="ts">
+defineOptions({
+  name: 'AdminPage',
+  meta: {
+    title: 'Admin',
+    requiresAuth: true,
+    permissions: ['admin', 'editor'],
+    params: { layout: { name: 'admin', sidebar: false } },
+    order: -1,
+    'custom-key': \`value\`
+  }
+})
+</script>`
+
+      const result = parseRouteOptionsFromSource(source, '/views/Admin.vue')
+
+      expect(result?.meta).toEqual({
+        title: 'Admin',
+        requiresAuth: true,
+        permissions: ['admin', 'editor'],
+        params: { layout: { name: 'admin', sidebar: false } },
+        order: -1,
+        'custom-key': 'value'
+      })
+    })
+
+    it('should support definePage and TypeScript wrappers', () => {
+      const source = `<script setup lang="ts">
+definePage({
+  lazy: false,
+  meta: { title: 'Home' } as const
+})
+</script>`
+
+      const result = parseRouteOptionsFromSource(source, '/views/Home.vue')
+
+      expect(result).toEqual({ lazy: false, meta: { title: 'Home' } })
+    })
+
+    it('should read export default from a normal script block', () => {
+      const source = `<script lang="ts">
+import { defineComponent } from 'vue'
+export default defineComponent({
+  meta: { title: 'Legacy', keepAlive: true }
+})
+</script>`
+
+      const result = parseRouteOptionsFromSource(source, '/views/Legacy.vue')
+
+      expect(result?.meta).toEqual({ title: 'Legacy', keepAlive: true })
+    })
+
+    it('should parse plain script page files', () => {
+      const source = `export default { meta: { title: 'Plain' } }`
+
+      const result = parseRouteOptionsFromSource(source, '/views/Plain.ts')
+
+      expect(result?.meta).toEqual({ title: 'Plain' })
+    })
+
+    it('should not be fooled by braces inside strings or comments', () => {
+      const source = `<script setup>
+defineOptions({
+  // meta: { title: 'commented' }
+  meta: { title: 'Braces }) inside', hidden: false }
+})
+</script>`
+
+      const result = parseRouteOptionsFromSource(source, '/views/Braces.vue')
+
+      expect(result?.meta).toEqual({ title: 'Braces }) inside', hidden: false })
+    })
+
+    it('should skip non-literal values and warn with file and line', () => {
+      const onWarning = vi.fn()
+      const source = `<template><div /></template>
+<script setup lang="ts">
+const title = 'Dynamic'
+defineOptions({
+  meta: {
+    title,
+    requiresAuth: true,
+    params: { handler: () => {} }
+  }
+})
+</script>`
+
+      const result = parseRouteOptionsFromSource(source, '/views/Dynamic.vue', onWarning)
+
+      expect(result?.meta).toEqual({ requiresAuth: true, params: {} })
+      expect(onWarning).toHaveBeenCalledTimes(2)
+      expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({ file: '/views/Dynamic.vue', line: 6 }))
+      expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({ file: '/views/Dynamic.vue', line: 8 }))
+    })
+
+    it('should never evaluate code', () => {
+      const source = `<script setup>
+defineOptions({ meta: { params: (globalThis.__evaluated = true) } })
+</script>`
+
+      parseRouteOptionsFromSource(source, '/views/Evil.vue')
+
+      expect((globalThis as any).__evaluated).toBeUndefined()
+    })
+
+    it('should return null when no route options are declared', () => {
+      const source = `<script setup>
+const message = 'Hello'
+</script>`
+
+      expect(parseRouteOptionsFromSource(source, '/views/Empty.vue')).toBeNull()
+    })
+  })
+
+  describe('route-level overrides', () => {
+    it('should read route options from the route key of defineOptions', () => {
+      const source = `<script setup lang="ts">
+defineOptions({
+  name: 'UserProfilePage',
+  route: { path: '/me', name: 'profile', alias: ['/profile'], sensitive: true },
+  meta: { title: 'Me' }
+})
+</script>`
+
+      const result = parseRouteOptionsFromSource(source, '/views/user/Profile.vue')
+
+      expect(result).toEqual({
+        path: '/me',
+        name: 'profile',
+        alias: ['/profile'],
+        sensitive: true,
+        meta: { title: 'Me' }
+      })
+    })
+
+    it('should read route options from the top level of definePage', () => {
+      const source = `<script setup lang="ts">
+definePage({ path: '/settings', redirect: '/settings/profile', props: true, strict: true })
+</script>`
+
+      const result = parseRouteOptionsFromSource(source, '/views/Settings.vue')
+
+      expect(result).toEqual({ path: '/settings', redirect: '/settings/profile', props: true, strict: true })
+    })
+
+    it('should resolve beforeEnter against named exports of the page', () => {
+      const source = `<script lang="ts">
+export function checkAccess() {
+  return true
+}
+</script>
+<script setup lang="ts">
+definePage({ beforeEnter: 'checkAccess' })
+</script>`
+
+      expect(parseRouteOptionsFromSource(source, '/views/Admin.vue')).toEqual({ beforeEnter: 'checkAccess' })
+    })
+
+    it('should drop beforeEnter when the export does not exist', () => {
+      const onWarning = vi.fn()
+      const source = `<route>{ "beforeEnter": "missingGuard" }</route>`
+
+      expect(parseRouteOptionsFromSource(source, '/views/Admin.vue', onWarning)).toBeNull()
+      expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'beforeEnter "missingGuard" is not a named export of the page'
+      }))
+    })
+  })
+
+  describe('<route> custom block', () => {
+    it('should read route options from a yaml block', () => {
+      const source = `<route lang="yaml">
+path: /sign-in
+name: login
+alias:
+  - /login
+redirect: /sign-in/password
+props: true
+meta:
+  title: Sign in
+  permissions: [guest]
+</route>
+<template><div /></template>`
+
+      const result = parseRouteOptionsFromSource(source, '/views/Login.vue')
+
+      expect(result).toEqual({
+        path: '/sign-in',
+        name: 'login',
+        alias: ['/login'],
+        redirect: '/sign-in/password',
+        props: true,
+        meta: { title: 'Sign in', permissions: ['guest'] }
+      })
+    })
+
+    it('should read route options from a json block by default', () => {
+      const source = `<route>
+{ "name": "about-us", "meta": { "title": "About" } }
+</route>`
+
+      const result = parseRouteOptionsFromSource(source, '/views/About.vue')
+
+      expect(result).toEqual({ name: 'about-us', meta: { title: 'About' } })
+    })
+
+    it('should merge block meta with defineOptions meta, script taking precedence', () => {
+      const source = `<route lang="json">
+{ "path": "/dash", "meta": { "title": "From block", "hidden": true } }
+</route>
+<script setup>
+defineOptions({ meta: { title: 'From script' } })
+</script>`
+
+      const result = parseRouteOptionsFromSource(source, '/views/Dashboard.vue')
+
+      expect(result).toEqual({ path: '/dash', meta: { title: 'From script', hidden: true } })
+    })
+
+    it('should warn about invalid blocks, unknown keys and wrong types', () => {
+      const onWarning = vi.fn()
+      const source = `<template><div /></template>
+<route lang="yaml">
+path: 42
+unknown: true
+</route>`
+
+      const result = parseRouteOptionsFromSource(source, '/views/Bad.vue', onWarning)
+
+      expect(result).toBeNull()
+      expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({ line: 2, message: 'Route option "path" must be a string' }))
+      expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({ message: 'Unknown route option "unknown"' }))
+
+      parseRouteOptionsFromSource('<route>{ broken</route>', '/views/Broken.vue', onWarning)
+      expect(onWarning).toHaveBeenLastCalledWith(expect.objectContaining({
+        file: '/views/Broken.vue',
+        message: expect.stringContaining('Failed to parse <route> block')
+      }))
+    })
+  })
+
+  describe('parseMetaFileSource', () => {
+    it('should read a json meta file as the meta object', () => {
+      const source = `{ "requiresAuth": true, "permissions": ["admin"] }`
+
+      expect(parseMetaFileSource(source, '/views/admin/_meta.json')).toEqual({ requiresAuth: true, permissions: ['admin'] })
+    })
+
+    it('should read the default export of a script meta file', () => {
+      const source = `import type { RouteMeta } from 'vue-router'
+export default { requiresAuth: true, layout: 'admin' } satisfies RouteMeta`
+
+      expect(parseMetaFileSource(source, '/views/admin/_meta.ts')).toEqual({ requiresAuth: true, layout: 'admin' })
+    })
+
+    it('should warn about invalid meta files', () => {
+      const onWarning = vi.fn()
+
+      expect(parseMetaFileSource('[1, 2]', '/views/_meta.json', onWarning)).toBeNull()
+      expect(parseMetaFileSource('export const meta = {}', '/views/_meta.ts', onWarning)).toBeNull()
+      expect(onWarning).toHaveBeenCalledWith({ file: '/views/_meta.json', message: 'Meta file must contain an object' })
+      expect(onWarning).toHaveBeenCalledWith({ file: '/views/_meta.ts', message: 'Meta file must export default an object' })
+    })
+  })
+
+  describe('stripRouteConfig', () => {
+    it('should remove the <route> block from the SFC', () => {
+      const source = `<route lang="yaml">
+name: home
+</route>
+<template><div>Home</div></template>`
+
+      const result = stripRouteConfig(source, '/views/Home.vue')
+
+      expect(result?.code).not.toContain('<route')
+      expect(result?.code).not.toContain('name: home')
+      expect(result?.code).toContain('<template><div>Home</div></template>')
+    })
+
+    it('should skip SFCs that only use <router-view> or <router-link>', () => {
+      const source = `<template>
+  <router-link to="/">Home</router-link>
+  <router-view />
+</template>`
+
+      expect(stripRouteConfig(source, '/views/Layout.vue')).toBeNull()
+    })
+
+    it('should remove definePage calls from the SFC', () => {
+      const source = `<script setup lang="ts">
+definePage({ meta: { title: 'Home' } })
+const count = 1
+</script>`
+
+      const result = stripRouteConfig(source, '/views/Home.vue')
+
+      expect(result?.code).not.toContain('definePage')
+      expect(result?.code).toContain('const count = 1')
+    })
+
+    it('should leave files without compile-time macros untouched', () => {
+      const source = `<script setup>
+defineOptions({ meta: { title: 'Home' } })
+</script>`
+
+      expect(stripRouteConfig(source, '/views/Home.vue')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { compareRouteSpecificity, getRouteSignature, getSegmentKind } from '../src/ranking'
+
+describe('ranking.ts', () => {
+  describe('getSegmentKind', () => {
+    it('should classify static, param, optional, repeatable and catch-all segments', () => {
+      expect(getSegmentKind('about')).toBe('static')
+      expect(getSegmentKind(':id')).toBe('param')
+      expect(getSegmentKind('user-:id')).toBe('param')
+      expect(getSegmentKind(':lang?')).toBe('optional')
+      expect(getSegmentKind(':ids+')).toBe('repeatable')
+      expect(getSegmentKind(':slug(.*)*')).toBe('catchAll')
+    })
+  })
+
+  describe('compareRouteSpecificity', () => {
+    it('should order static, then params, optional params and catch-alls', () => {
+      const paths = ['/:pathMatch(.*)*', '/user/:id', '/:lang?/about', '/user/new', '/about', '/user', '/', '/:page']
+      expect([...paths].sort(compareRouteSpecificity)).toEqual([
+        '/',
+        '/about',
+        '/user',
+        '/user/new',
+        '/user/:id',
+        '/:page',
+        '/:lang?/about',
+        '/:pathMatch(.*)*'
+      ])
+    })
+  })
+
+  describe('getRouteSignature', () => {
+    it('should ignore param names and case', () => {
+      expect(getRouteSignature('/user/:id')).toBe(getRouteSignature('/User/:userId'))
+      expect(getRouteSignature('/docs/:slug(.*)*')).toBe(getRouteSignature('/docs/:path(.*)*'))
+    })
+
+    it('should keep paths that match different URLs apart', () => {
+      expect(getRouteSignature('/user/:id')).not.toBe(getRouteSignature('/user/:id?'))
+      expect(getRouteSignature('/user/new')).not.toBe(getRouteSignature('/user/:id'))
+      expect(getRouteSignature('/About', true)).not.toBe(getRouteSignature('/about', true))
+    })
+  })
+})
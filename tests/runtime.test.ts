@@ -0,0 +1,205 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createMemoryHistory, createRouter } from 'vue-router'
+import type { RouteRecordRaw } from 'vue-router'
+import { addRoutes, createPermissionGuard, getRedirectPath, loadPageGuard, replaceRoutes } from '../src/runtime'
+import type { PermissionGuardOptions } from '../src/runtime'
+
+describe('Runtime helpers', () => {
+  const Page = { render: () => null }
+
+  describe('replaceRoutes', () => {
+    const oldRoutes: RouteRecordRaw[] = [
+      { path: '/', name: 'home', component: Page },
+      { path: '/user', component: Page, children: [{ path: '', name: 'user', component: Page }, { path: 'profile', name: 'user-profile', component: Page }] },
+    ]
+
+    const createTestRouter = async (location = '/user/profile?tab=1#bio') => {
+      const router = createRouter({
+        history: createMemoryHistory(),
+        routes: [{ path: '/login', name: 'login', component: Page }],
+      })
+      const removeRoutes = addRoutes(router, oldRoutes)
+      await router.push(location)
+      return { router, removeRoutes }
+    }
+
+    it('should swap routes including unnamed layouts and keep custom routes and the current location', async () => {
+      const { router, removeRoutes } = await createTestRouter()
+      const newRoutes: RouteRecordRaw[] = [
+        { path: '/', name: 'home', component: Page },
+        { path: '/user', component: Page, children: [{ path: '', name: 'user', component: Page }, { path: 'profile', name: 'user-profile', component: Page, meta: { title: 'Profile' } }] },
+        { path: '/about', name: 'about', component: Page },
+      ]
+
+      replaceRoutes(router, removeRoutes, newRoutes)
+      // 等待重新匹配当前地址的导航完成
+      await new Promise(resolve => setTimeout(resolve))
+
+      expect(router.hasRoute('about')).toBe(true)
+      expect(router.hasRoute('login')).toBe(true)
+      expect(router.getRoutes().filter(route => route.path === '/user')).toHaveLength(2)
+      expect(router.getRoutes()).toHaveLength(6)
+      expect(router.currentRoute.value.fullPath).toBe('/user/profile?tab=1#bio')
+      expect(router.currentRoute.value.meta).toEqual({ title: 'Profile' })
+    })
+
+    it('should return a remover for the next update', async () => {
+      const { router, removeRoutes } = await createTestRouter('/')
+
+      const removeNewRoutes = replaceRoutes(router, removeRoutes, [{ path: '/', name: 'home', component: Page }])
+      expect(router.hasRoute('user-profile')).toBe(false)
+      expect(router.getRoutes().some(route => route.path === '/user')).toBe(false)
+
+      replaceRoutes(router, removeNewRoutes, [])
+      expect(router.getRoutes().map(route => route.name)).toEqual(['login'])
+    })
+  })
+
+  describe('createPermissionGuard', () => {
+    interface User {
+      permissions: string[]
+    }
+
+    const createGuardedRouter = (user: User | null, options: Partial<PermissionGuardOptions<User>> = {}) => {
+      const router = createRouter({
+        history: createMemoryHistory(),
+        routes: [
+          { path: '/', name: 'home', component: Page },
+          { path: '/login', name: 'login', component: Page },
+          { path: '/403', name: 'forbidden', component: Page },
+          { path: '/profile', name: 'profile', component: Page, meta: { requiresAuth: true } },
+          {
+            path: '/admin',
+            component: Page,
+            meta: { requiresAuth: true, permissions: ['admin:read', 'admin:write'] },
+            children: [
+              { path: 'users', name: 'admin-users', component: Page },
+              { path: 'reports', name: 'admin-reports', component: Page, meta: { permissions: ['report:read', 'admin:read'], permissionMode: 'any' } },
+            ],
+          },
+        ],
+      })
+      router.beforeEach(createPermissionGuard<User>({
+        // 模拟异步获取用户和权限
+        getUser: async () => user,
+        hasPermission: async (current, permission) => current.permissions.includes(permission),
+        loginRoute: '/login',
+        forbiddenRoute: { name: 'forbidden' },
+        ...options,
+      }))
+      return router
+    }
+
+    it('should allow public routes without loading the user', async () => {
+      const getUser = vi.fn()
+      const router = createGuardedRouter(null, { getUser })
+
+      await router.push('/')
+
+      expect(router.currentRoute.value.name).toBe('home')
+      expect(getUser).not.toHaveBeenCalled()
+    })
+
+    it('should redirect to the login route with the original location', async () => {
+      const router = createGuardedRouter(null)
+
+      await router.push('/profile?tab=security')
+
+      expect(router.currentRoute.value.path).toBe('/login')
+      expect(router.currentRoute.value.query).toEqual({ redirect: '/profile?tab=security' })
+      expect(getRedirectPath(router.currentRoute.value)).toBe('/profile?tab=security')
+    })
+
+    it('should merge the redirect into an object login route with a custom query name', async () => {
+      const router = createGuardedRouter(null, { loginRoute: { name: 'login', query: { reason: 'expired' } }, redirectQuery: 'from' })
+
+      await router.push('/profile')
+
+      expect(router.currentRoute.value.query).toEqual({ reason: 'expired', from: '/profile' })
+    })
+
+    it('should require all permissions by default', async () => {
+      const router = createGuardedRouter({ permissions: ['admin:read'] })
+
+      await router.push('/admin/users')
+
+      expect(router.currentRoute.value.name).toBe('forbidden')
+    })
+
+    it('should accept any permission when the route sets permissionMode to any', async () => {
+      const router = createGuardedRouter({ permissions: ['report:read'] })
+
+      await router.push('/admin/reports')
+
+      expect(router.currentRoute.value.name).toBe('admin-reports')
+    })
+
+    it('should use the mode option for routes without permissionMode', async () => {
+      const router = createGuardedRouter({ permissions: ['admin:write'] }, { mode: 'any' })
+
+      await router.push('/admin/users')
+
+      expect(router.currentRoute.value.name).toBe('admin-users')
+    })
+
+    it('should let the login and forbidden routes through even when they inherit guarded meta', async () => {
+      const router = createRouter({
+        history: createMemoryHistory(),
+        routes: [{
+          path: '/',
+          component: Page,
+          meta: { requiresAuth: true },
+          children: [
+            { path: 'login', name: 'login', component: Page },
+            { path: '403', name: 'forbidden', component: Page, meta: { permissions: ['admin'] } },
+            { path: 'orders', name: 'orders', component: Page, meta: { permissions: ['admin'] } },
+          ],
+        }],
+      })
+      let user: User | null = null
+      router.beforeEach(createPermissionGuard<User>({
+        getUser: () => user,
+        hasPermission: (current, permission) => current.permissions.includes(permission),
+        loginRoute: { name: 'login' },
+        forbiddenRoute: '/403',
+      }))
+
+      await router.push('/orders')
+      expect(router.currentRoute.value.fullPath).toBe('/login?redirect=/orders')
+
+      user = { permissions: [] }
+      await router.push('/orders')
+      expect(router.currentRoute.value.name).toBe('forbidden')
+    })
+  })
+
+  describe('loadPageGuard', () => {
+    it('should load the page module on navigation and call its named guard', async () => {
+      const load = vi.fn(async () => ({ default: Page, checkAccess: (to: { path: string }) => (to.path === '/admin' ? '/login' : true) }))
+      const router = createRouter({
+        history: createMemoryHistory(),
+        routes: [
+          { path: '/', component: Page },
+          { path: '/login', component: Page },
+          { path: '/admin', component: Page, beforeEnter: loadPageGuard(load, 'checkAccess') },
+        ],
+      })
+
+      expect(load).not.toHaveBeenCalled()
+      await router.push('/admin')
+
+      expect(load).toHaveBeenCalledTimes(1)
+      expect(router.currentRoute.value.path).toBe('/login')
+    })
+  })
+
+  describe('getRedirectPath', () => {
+    it('should only accept in-app paths', () => {
+      const route = (redirect: string) => ({ query: { redirect } }) as any
+
+      expect(getRedirectPath(route('/orders?id=1'))).toBe('/orders?id=1')
+      expect(getRedirectPath(route('https://evil.example'))).toBe('/')
+      expect(getRedirectPath(route('//evil.example'), 'redirect', '/home')).toBe('/home')
+    })
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { generateRoutesTemplate, generateConfigTemplate, generateGuardsTemplate } from '../src/templates'
+import { generateRoutesTemplate, generateConfigTemplate, generateGuardsTemplate, generateTypedRouterTemplate } from '../src/templates'
+import { quoteString, serializeValue } from '../src/templates/serialize'
 import type { InternalAutoRouterOptions } from '../src/types'
 import type { RouteRecordRaw } from 'vue-router'
 
@@ -116,6 +117,172 @@ describe('Templates', () => {
     })
   })
 
+  describe('runtime HMR', () => {
+    const routes = [
+      { path: '/', name: 'home', component: "() => import('../views/Home.vue')", meta: {} }
+    ] as unknown as RouteRecordRaw[]
+
+    it('should only log route updates by default', () => {
+      const result = generateRoutesTemplate(routes)
+
+      expect(result).not.toContain('replaceRoutes')
+      expect(result).not.toContain('handleHotUpdate')
+    })
+
+    it('should add routes through the runtime helper and replace them on update', () => {
+      const result = generateRoutesTemplate(routes, [], 'ts', false, true)
+
+      expect(result).toContain("import type { RouteRecordRaw, Router } from 'vue-router'")
+      expect(result).toContain("import { addRoutes, replaceRoutes } from '@wemt/vue3-auto-router/runtime'")
+      expect(result).toContain('const removeRoutes = addRoutes(router, autoRoutes)')
+      expect(result).toContain('import.meta.hot.data.removeRoutes = removeRoutes')
+      expect(result).toContain('data.removeRoutes = replaceRoutes(data.router, data.removeRoutes, mod.autoRoutes)')
+      expect(result).toContain('import.meta.hot?.invalidate()')
+    })
+
+    it('should omit type annotations in JavaScript output', () => {
+      const result = generateRoutesTemplate(routes, [], 'js', false, true)
+
+      expect(result).not.toContain('import type')
+      expect(result).toContain('export function handleHotUpdate(router) {')
+    })
+  })
+
+  describe('route options', () => {
+    it('should render alias, redirect and props when present', () => {
+      const routes = [
+        {
+          path: '/sign-in',
+          name: 'login',
+          alias: ['/login'],
+          redirect: { name: 'home' },
+          component: "() => import('../../views/Login.vue')",
+          props: true,
+          meta: {}
+        }
+      ] as unknown as RouteRecordRaw[]
+
+      const result = generateRoutesTemplate(routes)
+
+      expect(result).toContain("alias: ['/login']")
+      expect(result).toContain("redirect: {\n      name: 'home'\n    }")
+      expect(result).toContain('props: true')
+    })
+  })
+
+  describe('route guards', () => {
+    const routes = [
+      {
+        path: '/admin',
+        name: 'admin',
+        component: "() => import('../views/Admin.vue')",
+        beforeEnter: { importPath: '../views/Admin.vue', exportName: 'checkAccess' },
+        meta: {},
+        children: [
+          { path: 'users', name: 'admin-users', component: "() => import('../views/admin/Users.vue')", beforeEnter: { importPath: '../views/admin/Users.vue', exportName: 'canList' } }
+        ]
+      }
+    ] as unknown as RouteRecordRaw[]
+
+    it.each(['ts', 'js'] as const)('should load named page guards through the runtime helper in %s output', format => {
+      const result = generateRoutesTemplate(routes, [], format)
+
+      expect(result).toContain("import { loadPageGuard } from '@wemt/vue3-auto-router/runtime'")
+      expect(result).toContain("beforeEnter: loadPageGuard(() => import('../views/Admin.vue'), 'checkAccess')")
+      expect(result).toContain("beforeEnter: loadPageGuard(() => import('../views/admin/Users.vue'), 'canList')")
+      expect(result).not.toContain('any')
+    })
+
+    it('should share the runtime import with the HMR helpers', () => {
+      const result = generateRoutesTemplate(routes, [], 'ts', false, true)
+
+      expect(result).toContain("import { addRoutes, loadPageGuard, replaceRoutes } from '@wemt/vue3-auto-router/runtime'")
+    })
+
+    it('should not import the runtime without page guards', () => {
+      const result = generateRoutesTemplate([{ path: '/', name: 'home', component: "() => import('../views/Home.vue')" }] as unknown as RouteRecordRaw[])
+
+      expect(result).not.toContain('loadPageGuard')
+    })
+  })
+
+  describe('nested routes', () => {
+    it('should render children arrays recursively', () => {
+      const routes = [
+        {
+          path: '/user',
+          component: "() => import('../../views/user.vue')",
+          meta: { title: 'User' },
+          children: [
+            {
+              path: '',
+              name: 'user',
+              component: "() => import('../../views/user/index.vue')",
+              meta: { title: 'User Index' }
+            },
+            {
+              path: ':id',
+              name: 'user-id',
+              component: "() => import('../../views/user/[id].vue')",
+              meta: { title: 'User Id' }
+            }
+          ]
+        }
+      ] as unknown as RouteRecordRaw[]
+
+      const result = generateRoutesTemplate(routes)
+
+      expect(result).toContain('    children: [')
+      expect(result).toContain("        path: ':id',")
+      expect(result).toContain("        name: 'user-id',")
+      expect(result).toContain("          title: 'User Id'")
+      expect(result).not.toContain("name: 'undefined'")
+      expect(result).not.toMatch(/,\s*\]/g)
+    })
+  })
+
+  describe('generateTypedRouterTemplate', () => {
+    const routes = [
+      { path: '/', name: 'home', component: "() => import('../../views/Home.vue')" },
+      {
+        path: '/user',
+        component: "() => import('../../views/user.vue')",
+        children: [
+          { path: '', name: 'user', component: "() => import('../../views/user/index.vue')" },
+          { path: ':id', name: 'user-id', component: "() => import('../../views/user/[id].vue')" }
+        ]
+      },
+      { path: '/docs/:slug(.*)*', name: 'docs-slug', component: "() => import('../../views/docs/[...slug].vue')" },
+      { path: '/:lang?/about', name: 'lang-about', component: "() => import('../../views/[[lang]]/about.vue')" }
+    ] as unknown as RouteRecordRaw[]
+
+    it('should augment vue-router with a RouteNamedMap', () => {
+      const result = generateTypedRouterTemplate(routes)
+
+      expect(result).toContain("from 'vue-router'")
+      expect(result).toContain('export interface RouteNamedMap {')
+      expect(result).toContain("declare module 'vue-router'")
+      expect(result).toContain('RouteNamedMap: RouteNamedMap')
+    })
+
+    it('should map route names to full paths and param types', () => {
+      const result = generateTypedRouterTemplate(routes)
+
+      expect(result).toContain("'home': RouteRecordInfo<'home', '/', Record<never, never>, Record<never, never>>")
+      expect(result).toContain("'user': RouteRecordInfo<'user', '/user', Record<never, never>, Record<never, never>>")
+      expect(result).toContain("'user-id': RouteRecordInfo<'user-id', '/user/:id', { id: ParamValue<true> }, { id: ParamValue<false> }>")
+      expect(result).toContain("{ slug?: ParamValueZeroOrMore<true> }")
+      expect(result).toContain("{ lang?: ParamValueZeroOrOne<false> }")
+    })
+
+    it('should skip unnamed layout routes', () => {
+      const result = generateTypedRouterTemplate(routes)
+
+      // home, user, user-id, docs-slug, lang-about; the /user layout has no name
+      expect(result.match(/RouteRecordInfo</g)).toHaveLength(5)
+    })
+  })
+
   describe('generateConfigTemplate', () => {
     it('should generate valid configuration object', () => {
       const result = generateConfigTemplate(mockOptions)
@@ -176,25 +343,19 @@ describe('Templates', () => {
       expect(result).toContain('之后不会被覆盖')
     })
 
-    it('should include example guard logic in comments', () => {
+    it('should wire up the permission guard from the runtime module', () => {
       const result = generateGuardsTemplate(mockOptions)
 
-      // Should contain authentication example
-      expect(result).toContain('检查登录状态')
-      expect(result).toContain('to.meta?.requiresAuth')
-      
-      // Should contain permission example
-      expect(result).toContain('检查权限')
-      expect(result).toContain('to.meta?.permissions')
-      
-      // Should contain custom params example
-      expect(result).toContain('检查自定义参数')
-      expect(result).toContain('to.meta?.params')
-      
-      // Should contain utility function examples
-      expect(result).toContain('function checkAuthStatus')
-      expect(result).toContain('function checkPermissions')
-      expect(result).toContain('function trackPageView')
+      expect(result).toContain("import { createPermissionGuard } from '@wemt/vue3-auto-router/runtime'")
+      expect(result).toContain('router.beforeEach(createPermissionGuard({')
+      expect(result).toContain('loginRoute: "/login"')
+      expect(result).toContain('forbiddenRoute: "/403"')
+      expect(result).toContain('function getUser(): CurrentUser | null')
+      expect(result).toContain('function hasPermission(user: CurrentUser, permission: string): boolean')
+
+      // Should not ship commented-out auth examples
+      expect(result).not.toContain('// if (to.meta?.requiresAuth)')
+      expect(result).not.toContain('function checkPermissions')
     })
 
     it('should handle empty default title', () => {
@@ -206,6 +367,49 @@ describe('Templates', () => {
     })
   })
 
+  describe('deterministic output', () => {
+    const routes = [
+      { path: '/', name: 'home', component: "() => import('../views/Home.vue')", meta: { title: 'Home' } }
+    ] as unknown as RouteRecordRaw[]
+
+    it('should not embed a timestamp', () => {
+      const result = generateRoutesTemplate(routes)
+
+      expect(result).not.toContain('Generated at')
+      expect(result).toBe(generateRoutesTemplate(routes))
+    })
+
+    it('should add a stable content hash to the header when enabled', () => {
+      const result = generateRoutesTemplate(routes, [], 'ts', true)
+      const changed = generateRoutesTemplate([{ ...routes[0], path: '/home' }] as RouteRecordRaw[], [], 'ts', true)
+
+      expect(result).toMatch(/\/\/ Content hash: [0-9a-f]{16}\n/)
+      expect(result).toBe(generateRoutesTemplate(routes, [], 'ts', true))
+      expect(changed.match(/Content hash: (\w+)/)?.[1]).not.toBe(result.match(/Content hash: (\w+)/)?.[1])
+    })
+  })
+
+  describe('serializeValue', () => {
+    it('should quote strings like prettier with singleQuote', () => {
+      expect(quoteString('plain')).toBe("'plain'")
+      expect(quoteString("User's Profile")).toBe(`"User's Profile"`)
+      expect(quoteString(`say "hi" it's`)).toBe(`'say "hi" it\\'s'`)
+      expect(quoteString('C:\\path\n')).toBe("'C:\\\\path\\n'")
+    })
+
+    it('should keep short primitive arrays on one line and wrap long ones', () => {
+      expect(serializeValue({ tags: ['a', 'b'] })).toBe("{\n  tags: ['a', 'b']\n}")
+
+      const long = Array.from({ length: 12 }, (_, index) => `permission-${index}`)
+      expect(serializeValue({ permissions: long })).toBe(`{\n  permissions: [\n${long.map(item => `    '${item}'`).join(',\n')}\n  ]\n}`)
+    })
+
+    it('should print empty containers, undefined array items and functions', () => {
+      expect(serializeValue({ a: {}, b: [], c: [undefined, null] })).toBe('{\n  a: {},\n  b: [],\n  c: [undefined, null]\n}')
+      expect(serializeValue(() => 1)).toBe('() => 1')
+    })
+  })
+
   describe('Template code quality', () => {
     it('should generate syntactically valid TypeScript', () => {
       const routes: RouteRecordRaw[] = [
@@ -244,8 +448,29 @@ describe('Templates', () => {
       const result = generateRoutesTemplate(routes)
       
       // Should handle quotes in strings
-      expect(result).toContain("path: '/test\'s-path'")
-      expect(result).toContain("title: 'Test\'s Title'")
+      expect(result).toContain(`path: "/test's-path"`)
+      expect(result).toContain(`title: "Test's Title"`)
+    })
+
+    it('should produce code that evaluates back to the same values', () => {
+      const meta = {
+        title: 'It\'s a "quoted" \\ path\nwith newline',
+        'data-id': 1,
+        permissions: ['admin', "o'neil"],
+        params: { layout: { name: 'admin', sidebar: false }, list: [{ id: 1 }], empty: {} },
+        skipped: undefined
+      }
+      const routes = [{ path: '/', component: "() => import('../views/Home.vue')", meta }] as unknown as RouteRecordRaw[]
+
+      const result = generateRoutesTemplate(routes, [], 'js')
+      const code = result.slice(result.indexOf('['), result.indexOf('\n\nexport default'))
+      const evaluated = new Function(`return ${code}`)()
+
+      const { skipped, ...expected } = meta
+      expect(evaluated[0].meta).toEqual(expected)
+      expect(typeof evaluated[0].component).toBe('function')
+      expect(result).toContain("'data-id': 1")
+      expect(result).not.toContain('skipped')
     })
   })
 })
\ No newline at end of file
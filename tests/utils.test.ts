@@ -6,11 +6,18 @@ import {
   generateRouteName, 
   generatePageTitle,
   generateImportStatement,
+  generateComponentIdentifier,
+  normalizePathPrefix,
+  joinRoutePath,
+  prefixRouteName,
+  mergeRouteMeta,
   mergeOptions,
   validateOptions,
-  parseVueFileRouteMeta
+  parseVueFileRouteMeta,
+  matchRouteFile,
+  createPathContext
 } from '../src/utils'
-import type { AutoRouterOptions, InternalAutoRouterOptions } from '../src/types'
+import type { AutoRouterOptions, InternalAutoRouterOptions, ResolvedScanDir } from '../src/types'
 
 describe('utils.ts', () => {
   describe('normalizePath', () => {
@@ -110,6 +117,31 @@ describe('utils.ts', () => {
       const result = generateRoutePath(filePath, suffixOptions)
       expect(result).toBe('User')
     })
+
+    it('should convert bracketed file names to dynamic segments', () => {
+      expect(generateRoutePath('/test/project/src/views/user/[id].vue', options)).toBe('user/:id')
+      expect(generateRoutePath('/test/project/src/views/docs/[...slug].vue', options)).toBe('docs/:slug(.*)*')
+      expect(generateRoutePath('/test/project/src/views/[[lang]]/about.vue', options)).toBe(':lang?/about')
+    })
+
+    it('should convert bracketed directory names to dynamic segments', () => {
+      const filePath = '/test/project/src/views/team/[teamId]/members.vue'
+      expect(generateRoutePath(filePath, options)).toBe('team/:teamId/members')
+    })
+
+    it('should drop route group directories from the path', () => {
+      expect(generateRoutePath('/test/project/src/views/(auth)/login.vue', options)).toBe('login')
+      expect(generateRoutePath('/test/project/src/views/(admin)/users/(list)/[id].vue', options)).toBe('users/:id')
+    })
+
+    it('should keep param names untouched when kebab-case is enabled', () => {
+      const kebabOptions = {
+        ...options,
+        naming: { ...options.naming, kebabCase: true }
+      }
+      const filePath = '/test/project/src/views/UserPosts/[postId].vue'
+      expect(generateRoutePath(filePath, kebabOptions)).toBe('user-posts/:postId')
+    })
   })
 
   describe('generateRouteName', () => {
@@ -145,6 +177,12 @@ describe('utils.ts', () => {
       const result = generateRouteName(filePath, options)
       expect(result).toBe('user-Profile')
     })
+
+    it('should strip param syntax from dynamic segments', () => {
+      expect(generateRouteName('/test/project/src/views/user/[id].vue', options)).toBe('user-id')
+      expect(generateRouteName('/test/project/src/views/docs/[...slug].vue', options)).toBe('docs-slug')
+      expect(generateRouteName('/test/project/src/views/[[lang]]/about.vue', options)).toBe('lang-about')
+    })
   })
 
   describe('generatePageTitle', () => {
@@ -180,6 +218,11 @@ describe('utils.ts', () => {
       const result = generatePageTitle(filePath, options)
       expect(result).toBe('User Profile')
     })
+
+    it('should generate titles without brackets for dynamic segments', () => {
+      expect(generatePageTitle('/test/project/src/views/user/[id].vue', options)).toBe('User Id')
+      expect(generatePageTitle('/test/project/src/views/docs/[...slug].vue', options)).toBe('Docs Slug')
+    })
   })
 
   describe('generateImportStatement', () => {
@@ -212,6 +255,20 @@ describe('utils.ts', () => {
       expect(result).toBe("() => import('../../views/Home.vue')")
     })
 
+    it('should import from the project root in virtual mode', () => {
+      const virtualOptions = { ...options, virtual: true }
+      expect(generateImportStatement('/test/project/src/views/Home.vue', virtualOptions, createPathContext(virtualOptions, '/test/project')))
+        .toBe("() => import('/src/views/Home.vue')")
+      expect(generateImportStatement('/shared/pages/Help.vue', virtualOptions, createPathContext(virtualOptions, '/test/project')))
+        .toBe("() => import('/shared/pages/Help.vue')")
+    })
+
+    it('should generate PascalCase component identifiers for static imports', () => {
+      vi.spyOn(process, 'cwd').mockReturnValue('/test/project')
+      expect(generateComponentIdentifier('/test/project/src/views/user/[id].vue', options)).toBe('UserIdPage')
+      expect(generateComponentIdentifier('/test/project/src/views/404.vue', options)).toBe('_404Page')
+    })
+
     it('should normalize path separators in import statements', () => {
       const filePath = 'C:\\test\\project\\src\\views\\Home.vue'
       const result = generateImportStatement(filePath, options)
@@ -221,6 +278,85 @@ describe('utils.ts', () => {
     })
   })
 
+  describe('pathPrefix helpers', () => {
+    it('should normalize leading and trailing slashes', () => {
+      expect(normalizePathPrefix('admin')).toBe('/admin')
+      expect(normalizePathPrefix('/admin/')).toBe('/admin')
+      expect(normalizePathPrefix('admin/v2/')).toBe('/admin/v2')
+      expect(normalizePathPrefix('/')).toBe('')
+      expect(normalizePathPrefix('')).toBe('')
+    })
+
+    it('should join the prefix with route paths', () => {
+      expect(joinRoutePath('admin/', '/')).toBe('/admin')
+      expect(joinRoutePath('/admin', '/user/:id')).toBe('/admin/user/:id')
+      expect(joinRoutePath('', '/user')).toBe('/user')
+    })
+
+    it('should prefix route names', () => {
+      expect(prefixRouteName('/admin/v2/', 'user')).toBe('admin-v2-user')
+      expect(prefixRouteName('', 'user')).toBe('user')
+    })
+  })
+
+  describe('mergeRouteMeta', () => {
+    it('should deep merge nested objects by default', () => {
+      const result = mergeRouteMeta(
+        { params: { requiresAuth: false, layout: { name: 'default' } } },
+        { params: { keepAlive: true, layout: { sidebar: false } } }
+      )
+      expect(result).toEqual({ params: { requiresAuth: false, keepAlive: true, layout: { name: 'default', sidebar: false } } })
+    })
+
+    it('should only merge the first level in shallow mode', () => {
+      const result = mergeRouteMeta({ params: { requiresAuth: false }, hidden: true }, { params: { keepAlive: true } }, { objects: 'shallow' })
+      expect(result).toEqual({ params: { keepAlive: true }, hidden: true })
+    })
+
+    it('should merge arrays with the configured strategy', () => {
+      const target = { permissions: ['read', 'write'], tags: ['a'] }
+      const source = { permissions: ['write', 'admin'], tags: ['b'] }
+
+      expect(mergeRouteMeta(target, source)).toEqual({ permissions: ['write', 'admin'], tags: ['b'] })
+      expect(mergeRouteMeta(target, source, { arrays: 'concat' })).toEqual({ permissions: ['read', 'write', 'write', 'admin'], tags: ['a', 'b'] })
+      expect(mergeRouteMeta(target, source, { arrays: { permissions: 'union' } })).toEqual({ permissions: ['read', 'write', 'admin'], tags: ['b'] })
+    })
+
+    it('should not mutate its inputs', () => {
+      const target = { params: { requiresAuth: false } }
+      mergeRouteMeta(target, { params: { keepAlive: true } })
+      expect(target).toEqual({ params: { requiresAuth: false } })
+    })
+  })
+
+  describe('matchRouteFile', () => {
+    const scanDirs: ResolvedScanDir[] = [
+      { dir: '/project/src/views', pathPrefix: '', exclude: ['**/components/**', '**/*.test.vue'], extensions: ['.vue', '.tsx'], meta: {} },
+      { dir: '/project/src/views/admin', pathPrefix: '/admin', exclude: [], extensions: ['.vue'], meta: {} }
+    ]
+    const context = { root: '/project', scanDirs }
+
+    it('should match exclude patterns as globs instead of substrings', () => {
+      expect(matchRouteFile('/project/src/views/components/Card.vue', context)).toBeUndefined()
+      expect(matchRouteFile('/project/src/views/user/components/Card.vue', context)).toBeUndefined()
+      expect(matchRouteFile('/project/src/views/Home.test.vue', context)).toBeUndefined()
+      expect(matchRouteFile('/project/src/views/mycomponents/List.vue', context)?.dir).toBe('/project/src/views')
+    })
+
+    it('should use the extensions and exclude of the deepest scan directory', () => {
+      expect(matchRouteFile('/project/src/views/Dashboard.tsx', context)?.dir).toBe('/project/src/views')
+      expect(matchRouteFile('/project/src/views/admin/Dashboard.tsx', context)).toBeUndefined()
+      expect(matchRouteFile('/project/src/views/admin/Home.test.vue', context)?.dir).toBe('/project/src/views/admin')
+    })
+
+    it('should resolve relative paths against the root and skip hidden or foreign files', () => {
+      expect(matchRouteFile('src/views/About.vue', context)?.dir).toBe('/project/src/views')
+      expect(matchRouteFile('/project/src/views/.drafts/About.vue', context)).toBeUndefined()
+      expect(matchRouteFile('/project/src/App.vue', context)).toBeUndefined()
+      expect(matchRouteFile('/project/src/views/admin/_meta.json', context)?.dir).toBe('/project/src/views/admin')
+    })
+  })
+
   describe('validateOptions', () => {
     it('should return no errors for valid options', () => {
       const options: AutoRouterOptions = {
@@ -239,6 +375,13 @@ describe('utils.ts', () => {
       expect(errors).toContain('scanDir cannot be empty')
     })
 
+    it('should validate scanDir arrays and their entries', () => {
+      expect(validateOptions({ scanDir: [] })).toContain('scanDir cannot be empty array')
+      expect(validateOptions({ scanDir: ['src/views', { dir: ' ' }] })).toContain('scanDir cannot be empty')
+      expect(validateOptions({ scanDir: [{ dir: 'src/pages', extensions: ['vue'] }] }))
+        .toContain("Invalid extensions: vue. Extensions must start with '.'")
+    })
+
     it('should detect empty extensions array', () => {
       const options: AutoRouterOptions = {
         extensions: [],